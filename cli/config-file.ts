@@ -0,0 +1,47 @@
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { PlannerConfig } from '../src/types/planner';
+import { deserializeConfig } from '../src/lib/config-serialization';
+
+export const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const FONT_SLOTS = ['regular', 'bold', 'heading'];
+
+/**
+ * Config files may point at font files instead of inlining them:
+ * `fonts: { regular: { path: ./fonts/Inter.ttf } }`, relative to the config file.
+ * Read each one into the { name, data } form PlannerConfig.fonts expects.
+ */
+async function readFontPaths(raw: unknown, configPath: string): Promise<void> {
+  const fonts = (raw as { fonts?: Record<string, unknown> } | null)?.fonts;
+  if (!fonts || typeof fonts !== 'object') return;
+
+  for (const slot of FONT_SLOTS) {
+    const entry = fonts[slot] as { path?: unknown } | undefined;
+    if (typeof entry?.path !== 'string') continue;
+
+    const fontPath = resolve(dirname(configPath), entry.path);
+    const bytes = await readFile(fontPath).catch(() => {
+      throw new Error(`fonts.${slot}: cannot read ${fontPath}`);
+    });
+    fonts[slot] = { name: basename(fontPath), data: bytes.toString('base64') };
+  }
+}
+
+/**
+ * Read a PlannerConfig from a JSON or YAML file.
+ * Older schema versions are migrated; missing fields fall back to the builder's defaults.
+ */
+export async function loadConfigFile(path: string): Promise<PlannerConfig> {
+  const text = await readFile(path, 'utf8');
+  const ext = extname(path).toLowerCase();
+  const raw: unknown = ext === '.json' ? JSON.parse(text) : parseYaml(text);
+
+  try {
+    await readFontPaths(raw, path);
+    return deserializeConfig(raw);
+  } catch (err) {
+    throw new Error(`${path}: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,166 @@
+import { parseArgs } from 'node:util';
+import { readdir, stat, writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { startOfYear, endOfYear } from 'date-fns';
+import type { DeviceType, Orientation, PlannerConfig } from '../src/types/planner';
+import { DEVICE_CONFIGS, setOrientation } from '../src/types/planner';
+import { generatePlannerPDF } from '../src/lib/pdf-generator';
+import { CONFIG_EXTENSIONS, loadConfigFile } from './config-file';
+import { parseConfigDate } from '../src/lib/config-serialization';
+import { validateConfig } from '../src/lib/config-validation';
+import { getDeviceConfig } from '../src/lib/devices';
+import { COLOR_THEMES } from '../src/lib/themes';
+
+const USAGE = `Usage: remarkable-planner <config-file | config-directory> [options]
+
+Generates a planner PDF from a JSON or YAML PlannerConfig.
+Given a directory, generates one PDF per config file in it.
+
+Options:
+  -o, --output <path>   Output PDF (single config) or directory (batch).
+                        Defaults to the config's name with a .pdf extension.
+      --device <id>     Override the device: ${Object.keys(DEVICE_CONFIGS).join(', ')},
+                        or the id of the config's deviceProfile
+      --start <date>    Override the start date (ISO, e.g. 2026-01-01)
+      --end <date>      Override the end date (ISO)
+      --year <yyyy>     Cover the whole year (sets start and end)
+      --theme <id>      Color palette: ${Object.keys(COLOR_THEMES).join(', ')}
+      --dark            Force dark mode
+      --light           Force light mode
+      --landscape       Lay pages out in landscape (the toolbar gap turns with the device)
+      --portrait        Lay pages out in portrait
+  -h, --help            Show this help
+`;
+
+interface Overrides {
+  device?: DeviceType;
+  startDate?: Date;
+  endDate?: Date;
+  darkMode?: boolean;
+  orientation?: Orientation;
+  palette?: string;
+}
+
+function parseOverrides(values: Record<string, string | boolean | undefined>): Overrides {
+  const overrides: Overrides = {};
+
+  // Custom device ids are checked per config, against its deviceProfile
+  if (typeof values.device === 'string') overrides.device = values.device;
+
+  if (typeof values.year === 'string') {
+    const year = parseConfigDate(`${values.year}-01-01`, '--year');
+    overrides.startDate = startOfYear(year);
+    overrides.endDate = endOfYear(year);
+  }
+  if (typeof values.start === 'string') overrides.startDate = parseConfigDate(values.start, '--start');
+  if (typeof values.end === 'string') overrides.endDate = parseConfigDate(values.end, '--end');
+
+  if (typeof values.theme === 'string') {
+    if (!Object.hasOwn(COLOR_THEMES, values.theme)) {
+      throw new Error(`Unknown theme "${values.theme}". Expected one of: ${Object.keys(COLOR_THEMES).join(', ')}`);
+    }
+    overrides.palette = values.theme;
+  }
+
+  if (values.dark && values.light) {
+    throw new Error('--dark and --light cannot be combined');
+  }
+  if (values.dark) overrides.darkMode = true;
+  if (values.light) overrides.darkMode = false;
+
+  if (values.landscape && values.portrait) {
+    throw new Error('--landscape and --portrait cannot be combined');
+  }
+  if (values.landscape) overrides.orientation = 'landscape';
+  if (values.portrait) overrides.orientation = 'portrait';
+
+  return overrides;
+}
+
+function pdfName(configPath: string): string {
+  return `${basename(configPath, extname(configPath))}.pdf`;
+}
+
+async function generateOne(configPath: string, outputPath: string, overrides: Overrides): Promise<void> {
+  const { orientation, palette, ...fields } = overrides;
+  let config: PlannerConfig = { ...(await loadConfigFile(configPath)), ...fields };
+  if (orientation) config = setOrientation(config, orientation);
+  // The config's own color overrides still apply on top of the new palette
+  if (palette) config = { ...config, theme: { ...config.theme, palette } };
+  if (!getDeviceConfig(config)) {
+    const known = [...Object.keys(DEVICE_CONFIGS), ...(config.deviceProfile ? [config.deviceProfile.id] : [])];
+    throw new Error(`Unknown device "${config.device}". Expected one of: ${known.join(', ')}`);
+  }
+  for (const warning of validateConfig(config).warnings) {
+    console.warn(`${configPath}: warning: ${warning.field}: ${warning.message}`);
+  }
+  const bytes = await generatePlannerPDF(config);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, bytes);
+  console.log(`${configPath} -> ${outputPath}`);
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      device: { type: 'string' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      year: { type: 'string' },
+      theme: { type: 'string' },
+      dark: { type: 'boolean' },
+      light: { type: 'boolean' },
+      landscape: { type: 'boolean' },
+      portrait: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const input = positionals[0];
+  const overrides = parseOverrides(values);
+
+  if (!(await stat(input)).isDirectory()) {
+    await generateOne(input, values.output ?? join(dirname(input), pdfName(input)), overrides);
+    return;
+  }
+
+  // Batch mode: one PDF per config file in the directory
+  const configFiles = (await readdir(input))
+    .filter((name) => CONFIG_EXTENSIONS.includes(extname(name).toLowerCase()))
+    .sort();
+  if (configFiles.length === 0) {
+    throw new Error(`No ${CONFIG_EXTENSIONS.join('/')} config files in ${input}`);
+  }
+
+  const outputDir = values.output ?? input;
+  let failures = 0;
+  for (const name of configFiles) {
+    try {
+      await generateOne(join(input, name), join(outputDir, pdfName(name)), overrides);
+    } catch (error) {
+      failures++;
+      console.error(`${join(input, name)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} of ${configFiles.length} configs failed`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`remarkable-planner: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -1,43 +1,35 @@
-import { useState } from 'react';
-import { startOfYear, endOfYear } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { isValid } from 'date-fns';
 import type { PlannerConfig } from './types/planner';
+import { createDefaultConfig } from './lib/default-config';
+import { decodeConfigHash, encodeConfigHash } from './lib/config-url';
 import { PlannerForm } from './components/PlannerForm';
 import { PreviewPanel } from './components/preview/PreviewPanel';
 
 function App() {
-  const [config, setConfig] = useState<PlannerConfig>({
-    type: 'bujo',
-    device: 'move',
-    startDate: startOfYear(new Date()),
-    endDate: endOfYear(new Date()),
-    includeWeekends: true,
-    timeStart: 6,
-    timeEnd: 22,
-    timeInterval: 60,
-    includeIndex: true,
-    pageNumbers: true,
-    darkMode: false,
-    bujoConfig: {
-      includeFutureLog: true,
-      futureLogMonths: 6,
-      includeMonthlyLog: true,
-      includeWeeklyReview: true,
-      includeDailyLog: true,
-      includeCollectionPages: 10,
-      showBulletKey: true,
-      density: 'normal',
-      dailyPageStyle: 'dotgrid',
-      collectionPageStyle: 'dotgrid',
-      dotSpacing: 14,
-    },
-    toolbarPosition: 'top',
-    padding: {
-      top: 40,
-      bottom: 24,
-      left: 24,
-      right: 24,
-    },
-  });
+  const [config, setConfig] = useState<PlannerConfig>(
+    () => decodeConfigHash(window.location.hash) ?? createDefaultConfig()
+  );
+
+  // Keep the URL shareable: it always encodes the current settings
+  useEffect(() => {
+    // Half-typed dates can't be encoded; keep the last good link until they're fixed
+    if (!isValid(config.startDate) || !isValid(config.endDate)) return;
+    const hash = encodeConfigHash(config);
+    if (window.location.hash !== hash) {
+      window.history.replaceState(null, '', hash);
+    }
+  }, [config]);
+
+  // Pasting another planner link into the address bar loads it
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = decodeConfigHash(window.location.hash);
+      if (shared) setConfig(shared);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
 
   return (
     <div className="min-h-screen bg-gray-100">
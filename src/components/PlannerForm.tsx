@@ -1,8 +1,23 @@
-import { useState } from 'react';
-import { Calendar, Download, FileText, Tablet } from 'lucide-react';
-import { format } from 'date-fns';
-import type { PlannerConfig, PlannerType, DeviceType, DensityLevel, ToolbarPosition } from '../types/planner';
-import { generatePlannerPDF } from '../lib/pdf-generator';
+import { useMemo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Calendar, ChevronDown, ChevronLeft, ChevronRight, ChevronUp, CircleAlert, Download, FileDown, FileText, FileUp, Palette, Plus, Tablet, TriangleAlert, X } from 'lucide-react';
+import { format, isValid } from 'date-fns';
+import type { PlannerConfig, BreadcrumbMode, BulletKeyEntry, BulletSymbol, CollectionConfig, CollectionTemplate, BujoNavPage, DeviceProfile, DeviceType, DensityLevel, FontConfig, FontFile, NavItemKind, NavItemsConfig, Orientation, PlannerLocale, SideTabsMode, ThemeColorName, ThemeConfig, ToolbarPosition, ReviewSectionFill, WeekNumbering, WeekStartDay, WeeklyReviewSection, YearOverviewMode } from '../types/planner';
+import { BULLET_SYMBOLS, COLLECTION_TEMPLATES, DEFAULT_NAV_ITEMS, NAV_ITEM_KINDS, REVIEW_SECTION_FILLS, setOrientation, setToolbarPosition } from '../types/planner';
+import type { TemplateOptionField } from '../lib/pdf/templates/types';
+import type { GenerationProgress } from '../lib/pdf-generator';
+import type { ConfigIssue } from '../lib/config-validation';
+import { validateConfig, validateDeviceProfile } from '../lib/config-validation';
+import { createDeviceConfig, customDeviceId, getDefaultPadding } from '../lib/devices';
+import { useSavedDevices } from '../hooks/useSavedDevices';
+import { COLOR_THEMES, DEFAULT_THEME, getSectionColors, resolveColorScheme, toHexColor } from '../lib/themes';
+import { generatePlannerPDFInWorker } from '../lib/pdf-worker-client';
+import { getTemplates } from '../lib/pdf/templates/registry';
+import { applyTemplateDefaults, getTemplateOption } from '../lib/pdf/templates/options';
+import { configFromJSON, configToJSON } from '../lib/config-serialization';
+import { PLANNER_LOCALES } from '../lib/i18n';
+import { getWeeklyReviewSections } from '../lib/pdf/templates/bujo/bujo-weekly';
+import { getBulletKeyEntries } from '../lib/pdf/templates/bujo/bujo-key';
 
 const DENSITY_OPTIONS: { value: DensityLevel; label: string; description: string }[] = [
   { value: 'compact', label: 'Compact', description: 'More content, smaller text' },
@@ -10,22 +25,97 @@ const DENSITY_OPTIONS: { value: DensityLevel; label: string; description: string
   { value: 'comfortable', label: 'Comfortable', description: 'Larger text, more space' },
 ];
 
-const PLANNER_TYPES: { value: PlannerType; label: string; description: string }[] = [
-  { value: 'bujo', label: 'Bullet Journal', description: 'Rapid logging with future & monthly logs' },
-  { value: 'daily', label: 'Daily Planner', description: 'Hourly time slots for each day' },
-  { value: 'weekly', label: 'Weekly Planner', description: '7-day grid with notes section' },
-  { value: 'monthly', label: 'Monthly Calendar', description: 'Traditional calendar grid' },
-  { value: 'dotgrid', label: 'Dot Grid', description: '50 pages of dot grid paper' },
-  { value: 'lined', label: 'Lined Paper', description: '50 pages of college-ruled lines' },
-  { value: 'blank', label: 'Blank Pages', description: '50 blank pages' },
-];
-
 const DEVICE_OPTIONS: { value: DeviceType; label: string; size: string }[] = [
   { value: 'remarkable2', label: 'reMarkable 2', size: '10.3"' },
   { value: 'paperPro', label: 'Paper Pro', size: '11.8"' },
   { value: 'move', label: 'Paper Pro Move', size: '7.3"' },
 ];
 
+const ORIENTATION_OPTIONS: { value: Orientation; label: string }[] = [
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
+
+const SIDE_TABS_OPTIONS: { value: SideTabsMode; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'months', label: 'Months' },
+  { value: 'months-quarters', label: 'Months + quarters' },
+];
+
+const BREADCRUMB_OPTIONS: { value: BreadcrumbMode; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'below-nav', label: 'Below nav bar' },
+  { value: 'replace-nav', label: 'Instead of nav bar' },
+];
+
+const YEAR_OVERVIEW_OPTIONS: { value: YearOverviewMode; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'calendar', label: 'Calendars' },
+  { value: 'pixels', label: 'Year in pixels' },
+];
+
+const NAV_PAGE_OPTIONS: { value: BujoNavPage; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'monthly-tasks', label: 'Monthly tasks' },
+  { value: 'habits', label: 'Habit tracker' },
+  { value: 'year', label: 'Year overview' },
+  { value: 'future', label: 'Future log' },
+  { value: 'key', label: 'Key' },
+  { value: 'collection', label: 'Collections' },
+];
+
+const BULLET_SYMBOL_LABELS: Record<BulletSymbol, string> = {
+  dot: '• Dot',
+  circle: '○ Circle',
+  x: '× Cross',
+  triangle: '△ Triangle',
+  square: '□ Square',
+  strike: '• Struck dot',
+  slash: '/ Slash',
+  '>': '>',
+  '<': '<',
+  '-': '-',
+  '*': '*',
+  '!': '!',
+  '?': '?',
+  '~': '~',
+  '@': '@',
+  '#': '#',
+};
+
+const COLLECTION_TEMPLATE_LABELS: Record<CollectionTemplate, string> = {
+  checklist: 'Checklist',
+  numbered: 'Numbered list',
+  table: 'Table',
+};
+
+const REVIEW_FILL_LABELS: Record<ReviewSectionFill, string> = {
+  bullets: 'Bullets',
+  lines: 'Lines',
+  dots: 'Dots',
+  checkboxes: 'Checklist',
+  blank: 'Blank',
+};
+
+const NAV_ITEM_LABELS: Record<NavItemKind, string> = {
+  index: 'Index',
+  key: 'Key',
+  future: 'Future Log',
+  year: 'Year',
+  monthly: 'Month',
+  'monthly-tasks': 'Tasks',
+  habits: 'Habits',
+  weekly: 'Week',
+  daily: 'Day',
+  collections: 'Collections',
+  prev: '< Previous page',
+  next: 'Next page >',
+  'prev-month': 'Previous month',
+  'next-month': 'Next month',
+};
+
 const TOOLBAR_POSITIONS: { value: ToolbarPosition; label: string }[] = [
   { value: 'top', label: 'Top' },
   { value: 'bottom', label: 'Bottom' },
@@ -33,6 +123,446 @@ const TOOLBAR_POSITIONS: { value: ToolbarPosition; label: string }[] = [
   { value: 'right', label: 'Right' },
 ];
 
+const WEEK_START_OPTIONS: { value: WeekStartDay; label: string }[] = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 6, label: 'Saturday' },
+];
+
+const WEEK_NUMBERING_OPTIONS: { value: WeekNumbering; label: string }[] = [
+  { value: 'calendar', label: 'Week 1 contains Jan 1' },
+  { value: 'iso', label: 'ISO 8601' },
+];
+
+const FONT_SLOTS: { slot: keyof FontConfig; label: string; fallback: string }[] = [
+  { slot: 'regular', label: 'Body', fallback: 'Built-in font' },
+  { slot: 'bold', label: 'Bold', fallback: 'Same as body' },
+  { slot: 'heading', label: 'Headings', fallback: 'Same as bold' },
+];
+
+// Colors the form lets you change; textMuted and lineFaint follow the palette
+const THEME_COLOR_FIELDS: { name: ThemeColorName; label: string }[] = [
+  { name: 'background', label: 'Page' },
+  { name: 'text', label: 'Text' },
+  { name: 'accent', label: 'Accent' },
+  { name: 'line', label: 'Lines' },
+  { name: 'dot', label: 'Dots' },
+];
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+function readFontFile(file: File): Promise<FontFile> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ name: file.name, data: reader.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Inline validation messages shown under a control
+function FieldIssues({ issues }: { issues: ConfigIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {issues.map((issue) => {
+        const Icon = issue.severity === 'error' ? CircleAlert : TriangleAlert;
+        return (
+          <p
+            key={`${issue.field}:${issue.message}`}
+            className={`flex items-start gap-1.5 text-xs ${
+              issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5 mt-px shrink-0" />
+            {issue.message}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+// Optional number field: blank means unset
+function parseOptional(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+// Describe a device by its screen; page size and margin are derived from it
+function CustomDeviceEditor({ takenIds, onSave, onCancel }: {
+  takenIds: string[];
+  onSave: (profile: DeviceProfile) => void;
+  onCancel: () => void;
+}) {
+  const [fields, setFields] = useState({ name: '', width: '', height: '', dpi: '', diagonal: '' });
+  const [attempted, setAttempted] = useState(false);
+
+  const profile: DeviceProfile = {
+    id: customDeviceId(fields.name, takenIds),
+    name: fields.name.trim(),
+    pixels: { width: Number(fields.width), height: Number(fields.height) },
+    dpi: parseOptional(fields.dpi),
+    diagonal: parseOptional(fields.diagonal),
+  };
+  const issues = validateDeviceProfile(profile);
+  const derived = issues.length === 0 ? createDeviceConfig(profile) : null;
+
+  const handleSave = () => {
+    setAttempted(true);
+    if (issues.length === 0) onSave(profile);
+  };
+
+  const input = (key: keyof typeof fields, label: string, placeholder: string, width = 'w-24') => (
+    <label className="block">
+      <span className="block text-xs text-gray-600 mb-1">{label}</span>
+      <input
+        type={key === 'name' ? 'text' : 'number'}
+        min={key === 'name' ? undefined : 0}
+        value={fields[key]}
+        placeholder={placeholder}
+        onChange={(e) => setFields((f) => ({ ...f, [key]: e.target.value }))}
+        className={`${width} px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-3 p-3 border border-gray-200 rounded-lg space-y-3">
+      {input('name', 'Name', 'Boox Note Air', 'w-full')}
+      <div className="flex flex-wrap gap-3">
+        {input('width', 'Width (px)', '1404')}
+        {input('height', 'Height (px)', '1872')}
+        {input('dpi', 'DPI', '226')}
+        {input('diagonal', 'or diagonal (in)', '10.3')}
+      </div>
+      <p className="text-xs text-gray-500">
+        {derived
+          ? `${derived.pdfPoints.width} × ${derived.pdfPoints.height} pt pages at ${derived.dpi} DPI, ${derived.margin} pt margin`
+          : 'Enter the screen held upright, with its DPI or diagonal'}
+      </p>
+      {attempted && <FieldIssues issues={issues} />}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          className="py-2 px-3 text-sm rounded-lg bg-gray-900 text-white hover:bg-gray-800 transition-colors"
+        >
+          Save device
+        </button>
+        <button
+          onClick={onCancel}
+          className="py-2 px-3 text-sm rounded-lg border border-gray-300 text-gray-700 hover:border-gray-400 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Pick the links in each page type's nav bar, left to right
+function NavItemsEditor({ navItems, onChange }: { navItems: NavItemsConfig; onChange: (navItems: NavItemsConfig) => void }) {
+  const [pageType, setPageType] = useState<BujoNavPage>('daily');
+  const items = navItems[pageType] ?? DEFAULT_NAV_ITEMS[pageType];
+  const available = NAV_ITEM_KINDS.filter((kind) => !items.includes(kind));
+
+  const setItems = (next: NavItemKind[] | undefined) => {
+    const others = { ...navItems };
+    delete others[pageType];
+    onChange(next ? { ...others, [pageType]: next } : others);
+  };
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setItems(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={pageType}
+        onChange={(e) => setPageType(e.target.value as BujoNavPage)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+      >
+        {NAV_PAGE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label} pages</option>
+        ))}
+      </select>
+      <div className="flex flex-wrap gap-1">
+        {items.map((kind, index) => (
+          <span key={kind} className="flex items-center gap-0.5 pl-1 pr-1 py-1 text-xs rounded-md border border-gray-300 bg-gray-50">
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="text-gray-400 hover:text-gray-900 disabled:opacity-30"
+              title="Move left"
+            >
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            {NAV_ITEM_LABELS[kind]}
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === items.length - 1}
+              className="text-gray-400 hover:text-gray-900 disabled:opacity-30"
+              title="Move right"
+            >
+              <ChevronRight className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => setItems(items.filter((item) => item !== kind))}
+              className="text-gray-400 hover:text-gray-900"
+              title={`Remove ${NAV_ITEM_LABELS[kind]}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {items.length === 0 && <span className="py-1 text-xs text-gray-500">No nav bar</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => setItems([...items, e.target.value as NavItemKind])}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            <option value="" disabled>Add a link…</option>
+            {available.map((kind) => (
+              <option key={kind} value={kind}>{NAV_ITEM_LABELS[kind]}</option>
+            ))}
+          </select>
+        )}
+        {navItems[pageType] && (
+          <button onClick={() => setItems(undefined)} className="text-xs text-gray-500 hover:text-gray-900 underline">
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Named collections, each with its own page count, style and template
+function CollectionsEditor({ collections, onChange }: {
+  collections: CollectionConfig[];
+  onChange: (collections: CollectionConfig[]) => void;
+}) {
+  const update = (index: number, changes: Partial<CollectionConfig>) =>
+    onChange(collections.map((collection, i) => (i === index ? { ...collection, ...changes } : collection)));
+
+  return (
+    <div className="space-y-2">
+      {collections.map((collection, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={collection.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+            placeholder="Name"
+            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          />
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={collection.pages}
+            onChange={(e) => update(index, { pages: Math.max(1, Math.min(50, parseInt(e.target.value) || 1)) })}
+            className="w-14 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            title="Pages"
+          />
+          <select
+            value={collection.pageStyle}
+            onChange={(e) => update(index, { pageStyle: e.target.value as CollectionConfig['pageStyle'] })}
+            className="px-1 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            <option value="dotgrid">Dot Grid</option>
+            <option value="lined">Lined</option>
+            <option value="blank">Blank</option>
+          </select>
+          <select
+            value={collection.template ?? ''}
+            onChange={(e) => update(index, { template: (e.target.value || undefined) as CollectionTemplate | undefined })}
+            className="px-1 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            <option value="">No template</option>
+            {COLLECTION_TEMPLATES.map((template) => (
+              <option key={template} value={template}>{COLLECTION_TEMPLATE_LABELS[template]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange(collections.filter((_, i) => i !== index))}
+            className="text-gray-400 hover:text-gray-900"
+            title={`Remove ${collection.name}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...collections, { name: '', pages: 1, pageStyle: 'dotgrid' }])}
+        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900"
+      >
+        <Plus className="w-3 h-3" />
+        Add collection
+      </button>
+    </div>
+  );
+}
+
+// Edit the key page's signifiers; starts from the standard eight until changed
+function BulletKeyEditor({ entries, preset, onChange }: {
+  entries: BulletKeyEntry[];
+  preset: BulletKeyEntry[];
+  onChange: (entries: BulletKeyEntry[]) => void;
+}) {
+  const current = entries.length > 0 ? entries : preset;
+  const update = (index: number, changes: Partial<BulletKeyEntry>) =>
+    onChange(current.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  const move = (index: number, offset: number) => {
+    const next = [...current];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {current.map((entry, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <div className="flex flex-col">
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="text-gray-400 hover:text-gray-900 disabled:opacity-30"
+              title="Move up"
+            >
+              <ChevronUp className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === current.length - 1}
+              className="text-gray-400 hover:text-gray-900 disabled:opacity-30"
+              title="Move down"
+            >
+              <ChevronDown className="w-3 h-3" />
+            </button>
+          </div>
+          <select
+            value={entry.symbol}
+            onChange={(e) => update(index, { symbol: e.target.value as BulletSymbol })}
+            className="w-24 px-1 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            {BULLET_SYMBOLS.map((symbol) => (
+              <option key={symbol} value={symbol}>{BULLET_SYMBOL_LABELS[symbol]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={entry.label}
+            onChange={(e) => update(index, { label: e.target.value })}
+            placeholder="Label"
+            className="w-24 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          />
+          <input
+            type="text"
+            value={entry.description}
+            onChange={(e) => update(index, { description: e.target.value })}
+            placeholder="Description"
+            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          />
+          <button
+            onClick={() => onChange(current.filter((_, i) => i !== index))}
+            disabled={current.length === 1}
+            className="text-gray-400 hover:text-gray-900 disabled:opacity-30"
+            title={`Remove ${entry.label}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange([...current, { symbol: 'dot', label: '', description: '' }])}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900"
+        >
+          <Plus className="w-3 h-3" />
+          Add signifier
+        </button>
+        {entries.length > 0 && (
+          <button onClick={() => onChange([])} className="text-xs text-gray-500 hover:text-gray-900 underline">
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Edit the weekly review's sections; starts from the standard three until changed
+function WeeklyReviewEditor({ sections, preset, onChange }: {
+  sections: WeeklyReviewSection[];
+  preset: WeeklyReviewSection[];
+  onChange: (sections: WeeklyReviewSection[]) => void;
+}) {
+  const current = sections.length > 0 ? sections : preset;
+  const update = (index: number, changes: Partial<WeeklyReviewSection>) =>
+    onChange(current.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+
+  return (
+    <div className="space-y-2">
+      {current.map((section, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={section.title}
+            onChange={(e) => update(index, { title: e.target.value })}
+            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          />
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={section.height}
+            onChange={(e) => update(index, { height: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) })}
+            className="w-14 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            title="Height, relative to the other sections"
+          />
+          <select
+            value={section.fill}
+            onChange={(e) => update(index, { fill: e.target.value as ReviewSectionFill })}
+            className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            {REVIEW_SECTION_FILLS.map((fill) => (
+              <option key={fill} value={fill}>{REVIEW_FILL_LABELS[fill]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange(current.filter((_, i) => i !== index))}
+            disabled={current.length === 1}
+            className="text-gray-400 hover:text-gray-900 disabled:opacity-30"
+            title={`Remove ${section.title}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange([...current, { title: '', height: 1, fill: 'lines' }])}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900"
+        >
+          <Plus className="w-3 h-3" />
+          Add section
+        </button>
+        {sections.length > 0 && (
+          <button onClick={() => onChange([])} className="text-xs text-gray-500 hover:text-gray-900 underline">
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 interface PlannerFormProps {
   config: PlannerConfig;
   onConfigChange: (config: PlannerConfig) => void;
@@ -40,6 +570,12 @@ interface PlannerFormProps {
 
 export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isAddingDevice, setIsAddingDevice] = useState(false);
+  const { devices: savedDevices, saveDevice, removeDevice } = useSavedDevices();
   const setConfig = (updater: PlannerConfig | ((prev: PlannerConfig) => PlannerConfig)) => {
     if (typeof updater === 'function') {
       onConfigChange(updater(config));
@@ -50,8 +586,10 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
 
   const handleGenerate = async () => {
     setIsGenerating(true);
+    setProgress(null);
+    setGenerateError(null);
     try {
-      const pdfBytes = await generatePlannerPDF(config);
+      const pdfBytes = await generatePlannerPDFInWorker(config, { onProgress: setProgress });
       const blob = new Blob([pdfBytes as BlobPart], { type: 'application/pdf' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
@@ -60,13 +598,154 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
       link.click();
       URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Failed to generate PDF:', error);
+      // A cancelled generation isn't a failure
+      if ((error as Error)?.name !== 'AbortError') {
+        setGenerateError(`Couldn't generate the PDF: ${(error as Error)?.message ?? String(error)}`);
+      }
     } finally {
       setIsGenerating(false);
+      setProgress(null);
     }
   };
 
-  const isDateBased = ['bujo', 'daily', 'weekly', 'monthly'].includes(config.type);
+  const handleExport = () => {
+    const blob = new Blob([configToJSON(config)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `remarkable-planner-${config.type}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const setFont = (slot: keyof FontConfig, file: FontFile | undefined) => {
+    setConfig((c) => ({ ...c, fonts: { ...c.fonts, [slot]: file } }));
+  };
+
+  const handleFontChange = async (slot: keyof FontConfig, event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) setFont(slot, await readFontFile(file));
+  };
+
+  // A shared link or imported file may use a custom device that isn't saved here
+  const customDevices = config.deviceProfile && !savedDevices.some((d) => d.id === config.deviceProfile!.id)
+    ? [...savedDevices, config.deviceProfile]
+    : savedDevices;
+
+  // A custom device starts from the margin derived from its screen
+  const selectDevice = (device: DeviceType, deviceProfile?: DeviceProfile) =>
+    setConfig((c) => ({
+      ...c,
+      device,
+      deviceProfile,
+      ...(deviceProfile ? { padding: getDefaultPadding(createDeviceConfig(deviceProfile), c.toolbarPosition) } : {}),
+    }));
+
+  const handleSaveDevice = (profile: DeviceProfile) => {
+    saveDevice(profile);
+    selectDevice(profile.id, profile);
+    setIsAddingDevice(false);
+  };
+
+  const theme = config.theme ?? { palette: DEFAULT_THEME };
+  const colorScheme = resolveColorScheme(config);
+  const setTheme = (update: Partial<ThemeConfig>) =>
+    setConfig((c) => ({ ...c, theme: { ...(c.theme ?? { palette: DEFAULT_THEME }), ...update } }));
+  const setThemeColor = (name: ThemeColorName, color: string | undefined) =>
+    setTheme({ colors: { ...theme.colors, [name]: color } });
+  const setMonthAccent = (month: number, color: string) => {
+    const accents = MONTHS.map((m) => toHexColor(getSectionColors(colorScheme, m).accent));
+    accents[month] = color;
+    setTheme({ sectionAccents: accents });
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setConfig(configFromJSON(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(`Couldn't import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const validation = useMemo(() => validateConfig(config), [config]);
+  const hasErrors = validation.errors.length > 0;
+  // Issues for the given fields; a field like 'padding' also matches 'padding.left'
+  const issuesFor = (...fields: string[]) =>
+    [...validation.errors, ...validation.warnings].filter((issue) =>
+      fields.some((field) => issue.field === field || issue.field.startsWith(`${field}.`))
+    );
+
+  // A config from another build may name a template this one lacks; validation reports it
+  const template = getTemplates().find((t) => t.id === config.type) ?? getTemplates()[0];
+  const isDateBased = template.features.dateRange;
+
+  const setTemplateOption = (key: string, value: number | boolean | string) =>
+    setConfig((c) => ({ ...c, templateOptions: { ...c.templateOptions, [key]: value } }));
+
+  const renderTemplateOption = (option: TemplateOptionField) => {
+    switch (option.type) {
+      case 'number':
+        return (
+          <div key={option.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {option.label}
+            </label>
+            <input
+              type="number"
+              min={option.min}
+              max={option.max}
+              value={getTemplateOption<number>(config, template, option.key)}
+              onChange={(e) =>
+                setTemplateOption(
+                  option.key,
+                  Math.max(option.min, Math.min(option.max, parseInt(e.target.value) || option.min))
+                )
+              }
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            />
+            <FieldIssues issues={issuesFor(`templateOptions.${option.key}`)} />
+          </div>
+        );
+      case 'boolean':
+        return (
+          <label key={option.key} className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={getTemplateOption<boolean>(config, template, option.key)}
+              onChange={(e) => setTemplateOption(option.key, e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+            />
+            <span className="text-sm text-gray-700">{option.label}</span>
+          </label>
+        );
+      case 'select':
+        return (
+          <div key={option.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {option.label}
+            </label>
+            <select
+              value={getTemplateOption<string>(config, template, option.key)}
+              onChange={(e) => setTemplateOption(option.key, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            >
+              {option.choices.map((choice) => (
+                <option key={choice.value} value={choice.value}>
+                  {choice.label}
+                </option>
+              ))}
+            </select>
+            <FieldIssues issues={issuesFor(`templateOptions.${option.key}`)} />
+          </div>
+        );
+    }
+  };
 
   return (
     <div className="max-w-2xl mx-auto p-6">
@@ -87,12 +766,12 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
             <Tablet className="w-4 h-4 inline mr-1" />
             Target Device
           </label>
-          <div className="flex gap-3">
+          <div className="grid grid-cols-3 gap-3">
             {DEVICE_OPTIONS.map((device) => (
               <button
                 key={device.value}
-                onClick={() => setConfig((c) => ({ ...c, device: device.value }))}
-                className={`flex-1 p-3 text-center rounded-lg border-2 transition-colors ${
+                onClick={() => selectDevice(device.value)}
+                className={`p-3 text-center rounded-lg border-2 transition-colors ${
                   config.device === device.value
                     ? 'border-gray-900 bg-gray-50'
                     : 'border-gray-200 hover:border-gray-300'
@@ -102,7 +781,74 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                 <div className="text-sm text-gray-500">{device.size}</div>
               </button>
             ))}
+            {customDevices.map((profile) => {
+              const saved = savedDevices.some((d) => d.id === profile.id);
+              return (
+                <div key={profile.id} className="relative">
+                  <button
+                    onClick={() => selectDevice(profile.id, profile)}
+                    className={`w-full h-full p-3 text-center rounded-lg border-2 transition-colors ${
+                      config.device === profile.id
+                        ? 'border-gray-900 bg-gray-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-900 truncate">{profile.name}</div>
+                    <div className="text-sm text-gray-500">{createDeviceConfig(profile).screenSize}</div>
+                  </button>
+                  {saved ? (
+                    <button
+                      onClick={() => removeDevice(profile.id)}
+                      title={`Forget ${profile.name}`}
+                      className="absolute top-1 right-1 p-1 text-gray-400 hover:text-gray-900 transition-colors"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => saveDevice(profile)}
+                      title={`Save ${profile.name} for next time`}
+                      className="absolute top-1 right-1 p-1 text-gray-400 hover:text-gray-900 transition-colors"
+                    >
+                      <Plus className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {!isAddingDevice && (
+              <button
+                onClick={() => setIsAddingDevice(true)}
+                className="p-3 text-center rounded-lg border-2 border-dashed border-gray-200 text-sm text-gray-500 hover:border-gray-300 hover:text-gray-700 transition-colors"
+              >
+                <Plus className="w-4 h-4 mx-auto mb-1" />
+                Custom device
+              </button>
+            )}
+          </div>
+          {isAddingDevice && (
+            <CustomDeviceEditor
+              takenIds={customDevices.map((d) => d.id)}
+              onSave={handleSaveDevice}
+              onCancel={() => setIsAddingDevice(false)}
+            />
+          )}
+          <div className="flex gap-2 mt-3">
+            {ORIENTATION_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setConfig((c) => setOrientation(c, option.value))}
+                className={`flex-1 py-2 px-3 text-sm rounded-lg border-2 transition-colors ${
+                  (config.orientation ?? 'portrait') === option.value
+                    ? 'border-gray-900 bg-gray-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
+          <FieldIssues issues={issuesFor('device', 'deviceProfile', 'orientation')} />
         </div>
 
         {/* Planner Type */}
@@ -111,12 +857,12 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
             Planner Type
           </label>
           <div className="grid grid-cols-2 gap-3">
-            {PLANNER_TYPES.map((type) => (
+            {getTemplates().map((type) => (
               <button
-                key={type.value}
-                onClick={() => setConfig((c) => ({ ...c, type: type.value }))}
+                key={type.id}
+                onClick={() => setConfig((c) => applyTemplateDefaults(c, type))}
                 className={`p-3 text-left rounded-lg border-2 transition-colors ${
-                  config.type === type.value
+                  config.type === type.id
                     ? 'border-gray-900 bg-gray-50'
                     : 'border-gray-200 hover:border-gray-300'
                 }`}
@@ -126,48 +872,120 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
               </button>
             ))}
           </div>
+          <FieldIssues issues={issuesFor('type')} />
+        </div>
+
+        {/* Language of the text drawn on the pages */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Planner Language
+          </label>
+          <select
+            value={config.locale ?? 'en'}
+            onChange={(e) =>
+              setConfig((c) => ({ ...c, locale: e.target.value as PlannerLocale }))
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            {Object.values(PLANNER_LOCALES).map((locale) => (
+              <option key={locale.id} value={locale.id}>
+                {locale.name}
+              </option>
+            ))}
+          </select>
+          <FieldIssues issues={issuesFor('locale')} />
         </div>
 
         {/* Date Range (for date-based planners) */}
         {isDateBased && (
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Start Date
-              </label>
-              <div className="relative">
-                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-                <input
-                  type="date"
-                  value={format(config.startDate, 'yyyy-MM-dd')}
+          <div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Start Date
+                </label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={isValid(config.startDate) ? format(config.startDate, 'yyyy-MM-dd') : ''}
+                    onChange={(e) =>
+                      setConfig((c) => ({ ...c, startDate: new Date(e.target.value) }))
+                    }
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  End Date
+                </label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={isValid(config.endDate) ? format(config.endDate, 'yyyy-MM-dd') : ''}
+                    onChange={(e) =>
+                      setConfig((c) => ({ ...c, endDate: new Date(e.target.value) }))
+                    }
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            </div>
+            <FieldIssues issues={issuesFor('startDate', 'endDate')} />
+
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Week Starts On
+                </label>
+                <select
+                  value={config.weekStartsOn ?? 0}
                   onChange={(e) =>
-                    setConfig((c) => ({ ...c, startDate: new Date(e.target.value) }))
+                    setConfig((c) => ({ ...c, weekStartsOn: parseInt(e.target.value) as WeekStartDay }))
                   }
-                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                />
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                >
+                  {WEEK_START_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
               </div>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                End Date
-              </label>
-              <div className="relative">
-                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-                <input
-                  type="date"
-                  value={format(config.endDate, 'yyyy-MM-dd')}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Week Numbers
+                </label>
+                <select
+                  value={config.weekNumbering ?? 'calendar'}
                   onChange={(e) =>
-                    setConfig((c) => ({ ...c, endDate: new Date(e.target.value) }))
+                    setConfig((c) => ({ ...c, weekNumbering: e.target.value as WeekNumbering }))
                   }
-                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                />
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                >
+                  {WEEK_NUMBERING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
               </div>
             </div>
+            <FieldIssues issues={issuesFor('weekStartsOn', 'weekNumbering')} />
+          </div>
+        )}
+
+        {/* Template-specific options */}
+        {template.options && template.options.length > 0 && (
+          <div className="space-y-4">
+            {template.options.map(renderTemplateOption)}
           </div>
         )}
 
-        {/* Daily planner options */}
-        {config.type === 'daily' && (
+        {/* Time slot options (daily planner) */}
+        {template.features.timeSlots && (
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -207,6 +1025,7 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                 </select>
               </div>
             </div>
+            <FieldIssues issues={issuesFor('timeStart', 'timeEnd')} />
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -234,6 +1053,7 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                   30 minutes
                 </button>
               </div>
+              <FieldIssues issues={issuesFor('timeInterval')} />
             </div>
           </div>
         )}
@@ -277,6 +1097,18 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
               <span className="text-sm text-gray-700">Show page numbers</span>
             </label>
 
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.pageLabels ?? false}
+                onChange={(e) =>
+                  setConfig((c) => ({ ...c, pageLabels: e.target.checked }))
+                }
+                className="w-4 h-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+              />
+              <span className="text-sm text-gray-700">Name pages in the reader's page list</span>
+            </label>
+
             <label className="flex items-center gap-3 cursor-pointer">
               <input
                 type="checkbox"
@@ -304,7 +1136,7 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
               {TOOLBAR_POSITIONS.map((pos) => (
                 <button
                   key={pos.value}
-                  onClick={() => setConfig((c) => ({ ...c, toolbarPosition: pos.value }))}
+                  onClick={() => setConfig((c) => setToolbarPosition(c, pos.value))}
                   className={`flex-1 py-2 px-3 text-sm rounded-lg border-2 transition-colors ${
                     config.toolbarPosition === pos.value
                       ? 'border-gray-900 bg-gray-50'
@@ -407,9 +1239,131 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                 />
               </div>
             </div>
+            <FieldIssues issues={issuesFor('padding')} />
           </div>
         </div>
 
+        {/* Custom fonts, embedded in the PDF */}
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <h3 className="font-medium text-gray-900">Fonts</h3>
+            <p className="text-xs text-gray-500 mt-1">TrueType (.ttf) or OpenType (.otf) files</p>
+          </div>
+          {FONT_SLOTS.map(({ slot, label, fallback }) => {
+            const file = config.fonts?.[slot];
+            return (
+              <div key={slot} className="flex items-center gap-3">
+                <span className="w-20 text-sm text-gray-700">{label}</span>
+                <label className="flex-1 min-w-0 truncate py-2 px-3 border border-gray-200 rounded-lg text-sm text-gray-600 hover:border-gray-300 cursor-pointer transition-colors">
+                  {file?.name ?? fallback}
+                  <input
+                    type="file"
+                    accept=".ttf,.otf,font/ttf,font/otf"
+                    onChange={(e) => handleFontChange(slot, e)}
+                    className="hidden"
+                  />
+                </label>
+                {file && (
+                  <button
+                    onClick={() => setFont(slot, undefined)}
+                    title={`Remove ${file.name}`}
+                    className="p-2 text-gray-500 hover:text-gray-900 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <FieldIssues issues={issuesFor('fonts')} />
+        </div>
+
+        {/* Color theme; the Paper Pro shows color, other devices draw it as gray */}
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="font-medium text-gray-900">
+            <Palette className="w-4 h-4 inline mr-1" />
+            Colors
+          </h3>
+          <div className="grid grid-cols-3 gap-2">
+            {Object.values(COLOR_THEMES).map((palette) => {
+              const swatch = config.darkMode ? palette.dark : palette.light;
+              const accents = swatch.sectionAccents.length > 0 ? swatch.sectionAccents.slice(0, 4) : [swatch.accent];
+              return (
+                <button
+                  key={palette.id}
+                  onClick={() => setConfig((c) => ({ ...c, theme: { palette: palette.id } }))}
+                  className={`p-2 text-left rounded-lg border-2 transition-colors ${
+                    theme.palette === palette.id
+                      ? 'border-gray-900 bg-gray-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900">{palette.name}</div>
+                  <div className="flex gap-1 mt-1">
+                    {[swatch.text, swatch.line, ...accents].map((color, i) => (
+                      <span
+                        key={i}
+                        className="w-3 h-3 rounded-full border border-gray-200"
+                        style={{ backgroundColor: toHexColor(color) }}
+                      />
+                    ))}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {THEME_COLOR_FIELDS.map(({ name, label }) => (
+              <div key={name} className="flex items-center gap-1">
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="color"
+                    value={toHexColor(colorScheme[name])}
+                    onChange={(e) => setThemeColor(name, e.target.value)}
+                    className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                  />
+                  {label}
+                </label>
+                {theme.colors?.[name] && (
+                  <button
+                    onClick={() => setThemeColor(name, undefined)}
+                    title={`Use the palette's ${label.toLowerCase()} color`}
+                    className="p-1 text-gray-500 hover:text-gray-900 transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm text-gray-700">Month accents</span>
+              {theme.sectionAccents && (
+                <button
+                  onClick={() => setTheme({ sectionAccents: undefined })}
+                  className="text-xs text-gray-500 hover:text-gray-900 transition-colors"
+                >
+                  Reset to palette
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-12 gap-1">
+              {MONTHS.map((month) => (
+                <input
+                  key={month}
+                  type="color"
+                  title={format(new Date(2000, month, 1), 'MMMM')}
+                  value={toHexColor(getSectionColors(colorScheme, month).accent)}
+                  onChange={(e) => setMonthAccent(month, e.target.value)}
+                  className="w-full h-6 rounded border border-gray-300 cursor-pointer"
+                />
+              ))}
+            </div>
+          </div>
+          <FieldIssues issues={issuesFor('theme')} />
+        </div>
+
         {/* Bullet Journal Options */}
         {config.type === 'bujo' && config.bujoConfig && (
           <div className="space-y-4 border-t pt-4">
@@ -512,6 +1466,23 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                 <span className="text-sm text-gray-700">Include Monthly Logs</span>
               </label>
 
+              {config.bujoConfig.includeMonthlyLog && (
+                <label className="flex items-center gap-3 cursor-pointer ml-7">
+                  <input
+                    type="checkbox"
+                    checked={config.bujoConfig.includeHabitTracker ?? false}
+                    onChange={(e) =>
+                      setConfig((c) => ({
+                        ...c,
+                        bujoConfig: { ...c.bujoConfig!, includeHabitTracker: e.target.checked },
+                      }))
+                    }
+                    className="w-4 h-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                  />
+                  <span className="text-sm text-gray-700">Habit Tracker</span>
+                </label>
+              )}
+
               <label className="flex items-center gap-3 cursor-pointer">
                 <input
                   type="checkbox"
@@ -543,6 +1514,83 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
               </label>
             </div>
 
+            {/* Signifiers on the key page */}
+            {config.bujoConfig.showBulletKey && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Bullet Key
+                </label>
+                <BulletKeyEditor
+                  entries={config.bujoConfig.bulletKey ?? []}
+                  preset={getBulletKeyEntries([], PLANNER_LOCALES[config.locale ?? 'en'].strings)}
+                  onChange={(bulletKey) =>
+                    setConfig((c) => ({
+                      ...c,
+                      bujoConfig: { ...c.bujoConfig!, bulletKey },
+                    }))
+                  }
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Keys too long for one page continue on the next
+                </p>
+                {(config.bujoConfig.bulletKey ?? []).map((_, i) => (
+                  <FieldIssues key={i} issues={issuesFor(`bujoConfig.bulletKey.${i}`)} />
+                ))}
+                <FieldIssues issues={issuesFor('bujoConfig.bulletKey')} />
+              </div>
+            )}
+
+            {/* A page per year before the future log, each day linked to its daily page */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Year Overview
+              </label>
+              <div className="flex gap-2">
+                {YEAR_OVERVIEW_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() =>
+                      setConfig((c) => ({
+                        ...c,
+                        bujoConfig: { ...c.bujoConfig!, yearOverview: option.value },
+                      }))
+                    }
+                    className={`flex-1 py-2 px-3 text-sm rounded-lg border-2 transition-colors ${
+                      (config.bujoConfig?.yearOverview ?? 'none') === option.value
+                        ? 'border-gray-900 bg-gray-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <FieldIssues issues={issuesFor('bujoConfig.yearOverview')} />
+            </div>
+
+            {/* Titles, sizes and fill of the weekly review's sections */}
+            {config.bujoConfig.includeWeeklyReview && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Weekly Review Sections
+                </label>
+                <WeeklyReviewEditor
+                  sections={config.bujoConfig.weeklyReviewSections ?? []}
+                  preset={getWeeklyReviewSections([], PLANNER_LOCALES[config.locale ?? 'en'].strings)}
+                  onChange={(weeklyReviewSections) =>
+                    setConfig((c) => ({
+                      ...c,
+                      bujoConfig: { ...c.bujoConfig!, weeklyReviewSections },
+                    }))
+                  }
+                />
+                {(config.bujoConfig.weeklyReviewSections ?? []).map((_, i) => (
+                  <FieldIssues key={i} issues={issuesFor(`bujoConfig.weeklyReviewSections.${i}`)} />
+                ))}
+                <FieldIssues issues={issuesFor('bujoConfig.weeklyReviewSections')} />
+              </div>
+            )}
+
             {/* Daily page style */}
             {config.bujoConfig.includeDailyLog && (
               <div>
@@ -572,6 +1620,117 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
               </div>
             )}
 
+            {/* Habit names, one per line, for the monthly tracker rows */}
+            {config.bujoConfig.includeMonthlyLog && config.bujoConfig.includeHabitTracker && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Habits
+                </label>
+                <textarea
+                  value={(config.bujoConfig.habits ?? []).join('\n')}
+                  onChange={(e) =>
+                    setConfig((c) => ({
+                      ...c,
+                      bujoConfig: { ...c.bujoConfig!, habits: e.target.value.split('\n') },
+                    }))
+                  }
+                  rows={4}
+                  placeholder={'Read\nExercise\nNo sugar'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  One per line. Leftover rows are left blank to write in
+                </p>
+                <FieldIssues issues={issuesFor('bujoConfig.habits')} />
+              </div>
+            )}
+
+            {/* Month tabs along the page edge, linked to the monthly calendars */}
+            {config.bujoConfig.includeMonthlyLog && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Side Tabs
+                </label>
+                <div className="flex gap-2">
+                  {SIDE_TABS_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() =>
+                        setConfig((c) => ({
+                          ...c,
+                          bujoConfig: { ...c.bujoConfig!, sideTabs: option.value },
+                        }))
+                      }
+                      className={`flex-1 py-2 px-3 text-sm rounded-lg border-2 transition-colors ${
+                        (config.bujoConfig?.sideTabs ?? 'none') === option.value
+                          ? 'border-gray-900 bg-gray-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Drawn on the edge away from the toolbar
+                </p>
+                <FieldIssues issues={issuesFor('bujoConfig.sideTabs')} />
+              </div>
+            )}
+
+            {/* Year › Month › Week › Day links on dated pages */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Breadcrumbs
+              </label>
+              <div className="flex gap-2">
+                {BREADCRUMB_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() =>
+                      setConfig((c) => ({
+                        ...c,
+                        bujoConfig: { ...c.bujoConfig!, breadcrumbs: option.value },
+                      }))
+                    }
+                    className={`flex-1 py-2 px-3 text-sm rounded-lg border-2 transition-colors ${
+                      (config.bujoConfig?.breadcrumbs ?? 'none') === option.value
+                        ? 'border-gray-900 bg-gray-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                e.g. 2026 › March › W10 › Tue 4 on monthly, weekly and daily pages
+              </p>
+              <FieldIssues issues={issuesFor('bujoConfig.breadcrumbs')} />
+            </div>
+
+            {/* Links in each page type's nav bar */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Navigation Bar
+              </label>
+              <NavItemsEditor
+                navItems={config.bujoConfig.navItems ?? {}}
+                onChange={(navItems) =>
+                  setConfig((c) => ({
+                    ...c,
+                    bujoConfig: { ...c.bujoConfig!, navItems },
+                  }))
+                }
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Links to sections the planner leaves out aren't drawn
+              </p>
+              {NAV_PAGE_OPTIONS.map((option) => (
+                <FieldIssues key={option.value} issues={issuesFor(`bujoConfig.navItems.${option.value}`)} />
+              ))}
+            </div>
+
             {/* Dot spacing slider - only show when dotgrid is selected */}
             {(config.bujoConfig.dailyPageStyle === 'dotgrid' || config.bujoConfig.collectionPageStyle === 'dotgrid') && (
               <div>
@@ -595,10 +1754,35 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                   <span>Dense</span>
                   <span>Sparse</span>
                 </div>
+                <FieldIssues issues={issuesFor('bujoConfig.dotSpacing')} />
               </div>
             )}
 
+            {/* Named collections replace the untitled collection pages */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Collections
+              </label>
+              <CollectionsEditor
+                collections={config.bujoConfig.collections ?? []}
+                onChange={(collections) =>
+                  setConfig((c) => ({
+                    ...c,
+                    bujoConfig: { ...c.bujoConfig!, collections },
+                  }))
+                }
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                e.g. Books to read, Gift ideas. Without any, the journal ends with untitled collection pages
+              </p>
+              {(config.bujoConfig.collections ?? []).map((_, i) => (
+                <FieldIssues key={i} issues={issuesFor(`bujoConfig.collections.${i}`)} />
+              ))}
+              <FieldIssues issues={issuesFor('bujoConfig.collections')} />
+            </div>
+
             {/* Collection pages */}
+            {(config.bujoConfig.collections ?? []).length === 0 && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Collection Pages
@@ -623,9 +1807,10 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
                 <span className="text-sm text-gray-600">blank pages for collections</span>
               </div>
             </div>
+            )}
 
             {/* Collection page style */}
-            {config.bujoConfig.includeCollectionPages > 0 && (
+            {(config.bujoConfig.collections ?? []).length === 0 && config.bujoConfig.includeCollectionPages > 0 && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Collection Page Style
@@ -658,13 +1843,15 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
         {/* Generate Button */}
         <button
           onClick={handleGenerate}
-          disabled={isGenerating}
+          disabled={isGenerating || hasErrors}
           className="w-full flex items-center justify-center gap-2 py-3 px-4 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {isGenerating ? (
             <>
               <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              Generating...
+              {progress
+                ? `Generating ${progress.section}... ${Math.round((progress.pagesDone / progress.estimatedTotal) * 100)}%`
+                : 'Generating...'}
             </>
           ) : (
             <>
@@ -673,6 +1860,40 @@ export function PlannerForm({ config, onConfigChange }: PlannerFormProps) {
             </>
           )}
         </button>
+        {generateError && (
+          <p className="-mt-4 text-sm text-red-600">{generateError}</p>
+        )}
+
+        {/* Save / Load Config */}
+        <div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleExport}
+              disabled={hasErrors}
+              className="flex items-center justify-center gap-2 py-2 px-3 border border-gray-200 rounded-lg text-sm text-gray-700 hover:border-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FileDown className="w-4 h-4" />
+              Export Config
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 py-2 px-3 border border-gray-200 rounded-lg text-sm text-gray-700 hover:border-gray-300 transition-colors"
+            >
+              <FileUp className="w-4 h-4" />
+              Import Config
+            </button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          {importError && (
+            <p className="mt-2 text-sm text-red-600">{importError}</p>
+          )}
+        </div>
       </div>
 
       {/* Upload Instructions */}
@@ -1,23 +1,25 @@
-import type { DeviceType, ToolbarPosition, PaddingConfig } from '../../types/planner';
-import { DEVICE_CONFIGS } from '../../types/planner';
+import type { DeviceConfig, Orientation, ToolbarPosition, PaddingConfig } from '../../types/planner';
+import { getPageSize } from '../../types/planner';
 
 // Fixed toolbar size in PDF points - this matches the actual reMarkable toolbar
 const TOOLBAR_SIZE = 40;
 
 interface DeviceFrameProps {
-  device: DeviceType;
+  device: DeviceConfig;
+  orientation?: Orientation;
   children: React.ReactNode;
   toolbarPosition: ToolbarPosition;
   padding: PaddingConfig;
 }
 
-export function DeviceFrame({ device, children, toolbarPosition, padding }: DeviceFrameProps) {
-  const config = DEVICE_CONFIGS[device];
-  const aspectRatio = config.pixels.width / config.pixels.height;
+export function DeviceFrame({ device, orientation = 'portrait', children, toolbarPosition, padding }: DeviceFrameProps) {
+  const landscape = orientation === 'landscape';
+  const aspectRatio = landscape
+    ? device.pixels.height / device.pixels.width
+    : device.pixels.width / device.pixels.height;
 
   // Convert PDF points to percentage for the overlays
-  const pdfWidth = config.pdfPoints.width;
-  const pdfHeight = config.pdfPoints.height;
+  const { width: pdfWidth, height: pdfHeight } = getPageSize(device, orientation);
 
   // Fixed toolbar size as percentage
   const toolbarHeightPct = `${(TOOLBAR_SIZE / pdfHeight) * 100}%`;
@@ -71,7 +73,7 @@ export function DeviceFrame({ device, children, toolbarPosition, padding }: Devi
     <div className="flex flex-col items-center">
       {/* Device name */}
       <div className="text-sm text-gray-500 mb-2">
-        {config.name} ({config.screenSize})
+        {device.name} ({device.screenSize})
       </div>
 
       {/* Device frame */}
@@ -87,8 +89,9 @@ export function DeviceFrame({ device, children, toolbarPosition, padding }: Devi
           className="relative bg-gray-100 rounded-lg overflow-hidden"
           style={{
             aspectRatio: aspectRatio.toString(),
-            width: 'auto',
-            height: '60vh',
+            // Landscape is sized by width so it doesn't outgrow the preview column
+            width: landscape ? 'min(90vw, 560px)' : 'auto',
+            height: landscape ? 'auto' : '60vh',
             maxHeight: '500px',
           }}
         >
@@ -105,8 +108,12 @@ export function DeviceFrame({ device, children, toolbarPosition, padding }: Devi
           {children}
         </div>
 
-        {/* Device button (reMarkable style) */}
-        <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-8 h-1 bg-gray-700 rounded-full" />
+        {/* Device button (reMarkable style), on the right edge when turned to landscape */}
+        {landscape ? (
+          <div className="absolute -right-1 top-1/2 -translate-y-1/2 w-1 h-8 bg-gray-700 rounded-full" />
+        ) : (
+          <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-8 h-1 bg-gray-700 rounded-full" />
+        )}
       </div>
     </div>
   );
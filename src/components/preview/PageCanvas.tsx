@@ -1,10 +1,12 @@
 import type { PreviewLink } from '../../hooks/usePreview';
+import type { GenerationProgress } from '../../lib/pdf-generator';
 
 interface PageCanvasProps {
   imageUrl: string;
   isLoading: boolean;
   pageNumber: number;
   links?: PreviewLink[];
+  progress?: GenerationProgress | null;
   onNavigate?: (targetPage: number) => void;
 }
 
@@ -13,6 +15,7 @@ export function PageCanvas({
   isLoading,
   pageNumber,
   links = [],
+  progress,
   onNavigate,
 }: PageCanvasProps) {
   if (isLoading) {
@@ -21,6 +24,11 @@ export function PageCanvas({
         <div className="flex flex-col items-center gap-3">
           <div className="w-8 h-8 border-2 border-gray-300 border-t-gray-900 rounded-full animate-spin" />
           <span className="text-sm text-gray-500">Generating preview...</span>
+          {progress && (
+            <span className="text-xs text-gray-400">
+              {progress.section} · {progress.pagesDone} / ~{progress.estimatedTotal} pages
+            </span>
+          )}
         </div>
       </div>
     );
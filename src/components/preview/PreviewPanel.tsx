@@ -1,5 +1,6 @@
 import type { PlannerConfig } from '../../types/planner';
 import { usePreview } from '../../hooks/usePreview';
+import { getDeviceConfig } from '../../lib/devices';
 import { DeviceFrame } from './DeviceFrame';
 import { PageCanvas } from './PageCanvas';
 import { PageNavigation } from './PageNavigation';
@@ -15,24 +16,34 @@ export function PreviewPanel({ config }: PreviewPanelProps) {
     currentPage,
     totalPages,
     isLoading,
+    progress,
     error,
     goNext,
     goPrev,
     goToPage,
   } = usePreview(config);
+  const device = getDeviceConfig(config);
 
   return (
     <div className="flex flex-col items-center h-full">
-      <div className="text-sm font-medium text-gray-700 mb-3">Live Preview</div>
+      <div className="text-sm font-medium text-gray-700 mb-3">
+        Live Preview
+        {isLoading && pages.length > 0 && (
+          <span className="ml-2 text-xs font-normal text-gray-400">
+            Updating{progress ? ` · ${progress.pagesDone} / ~${progress.estimatedTotal} pages` : '...'}
+          </span>
+        )}
+      </div>
 
-      {error ? (
+      {error || !device ? (
         <div className="flex items-center justify-center h-64 text-red-500 text-sm">
-          {error}
+          {error ?? `Unknown device: ${config.device}`}
         </div>
       ) : (
         <>
           <DeviceFrame
-            device={config.device}
+            device={device}
+            orientation={config.orientation}
             toolbarPosition={config.toolbarPosition}
             padding={config.padding}
           >
@@ -41,6 +52,7 @@ export function PreviewPanel({ config }: PreviewPanelProps) {
               isLoading={isLoading && pages.length === 0}
               pageNumber={currentPage}
               links={pageLinks[currentPage]}
+              progress={progress}
               onNavigate={goToPage}
             />
           </DeviceFrame>
@@ -1,7 +1,9 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 import type { PlannerConfig } from '../types/planner';
-import { generatePlannerPDF } from '../lib/pdf-generator';
+import type { GenerationProgress } from '../lib/pdf-generator';
+import { generatePlannerPDFInWorker } from '../lib/pdf-worker-client';
+import { ConfigValidationError } from '../lib/config-validation';
 import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
 import PdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 
@@ -19,6 +21,7 @@ export interface PreviewState {
   currentPage: number;
   totalPages: number;
   isLoading: boolean;
+  progress: GenerationProgress | null; // Set while the worker is generating
   error: string | null;
 }
 
@@ -105,6 +108,7 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
     currentPage: 0,
     totalPages: 0,
     isLoading: false,
+    progress: null,
     error: null,
   });
 
@@ -137,23 +141,33 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
   }, []);
 
   const generatePreview = useCallback(async (currentConfig: PlannerConfig) => {
+    // Cancel any generation still running for an older config
     if (abortController.current) {
       abortController.current.abort();
     }
-    abortController.current = new AbortController();
+    const controller = new AbortController();
+    abortController.current = controller;
+    const { signal } = controller;
 
     // Remember current page before regenerating
     setState((prev) => {
       previousPageRef.current = prev.currentPage;
-      return { ...prev, isLoading: true, error: null };
+      return { ...prev, isLoading: true, progress: null, error: null };
     });
 
     try {
-      const pdfBytes = await generatePlannerPDF(currentConfig);
-      if (abortController.current?.signal.aborted) return;
+      const pdfBytes = await generatePlannerPDFInWorker(currentConfig, {
+        signal,
+        onProgress: (progress) => {
+          if (!signal.aborted) {
+            setState((prev) => ({ ...prev, progress }));
+          }
+        },
+      });
+      if (signal.aborted) return;
 
       const pdf = await getDocument({ data: pdfBytes }).promise;
-      if (abortController.current?.signal.aborted) return;
+      if (signal.aborted) return;
 
       pdfRef.current = pdf;
       const totalPages = pdf.numPages;
@@ -164,7 +178,7 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
       // Render the restored page (or first page if restored is 0)
       const initialPage = restoredPage + 1;
       const { imageUrl, links } = await renderPage(pdf, initialPage);
-      if (abortController.current?.signal.aborted) return;
+      if (signal.aborted) return;
 
       // Initialize arrays with placeholders
       const pages = new Array(totalPages).fill('');
@@ -179,6 +193,7 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
         currentPage: restoredPage,
         totalPages,
         isLoading: false,
+        progress: null,
         error: null,
       });
 
@@ -188,7 +203,7 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
       );
 
       for (const pageIndex of adjacentPages) {
-        if (abortController.current?.signal.aborted) break;
+        if (signal.aborted) break;
         const result = await renderPage(pdf, pageIndex + 1);
         setState((prev) => {
           const newPages = [...prev.pages];
@@ -199,11 +214,14 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
         });
       }
     } catch (err) {
-      if (!abortController.current?.signal.aborted) {
+      if (!signal.aborted) {
         setState((prev) => ({
           ...prev,
           isLoading: false,
-          error: err instanceof Error ? err.message : 'Failed to generate preview',
+          progress: null,
+          error: err instanceof ConfigValidationError
+            ? 'Fix the highlighted settings to update the preview'
+            : err instanceof Error ? err.message : 'Failed to generate preview',
         }));
       }
     }
@@ -226,6 +244,11 @@ export function usePreview(config: PlannerConfig): UsePreviewReturn {
       clearTimeout(debounceTimeout.current);
     }
 
+    // Stop work on the outdated config right away rather than after the debounce
+    if (abortController.current) {
+      abortController.current.abort();
+    }
+
     debounceTimeout.current = setTimeout(() => {
       generatePreview(configRef.current);
     }, 500);
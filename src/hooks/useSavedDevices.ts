@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react';
+import type { DeviceProfile } from '../types/planner';
+
+const STORAGE_KEY = 'remarkable-planner:devices';
+
+function loadDevices(): DeviceProfile[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export interface UseSavedDevicesReturn {
+  devices: DeviceProfile[];
+  saveDevice: (profile: DeviceProfile) => void; // Replaces a saved device with the same id
+  removeDevice: (id: string) => void;
+}
+
+/**
+ * Custom devices the user has added, kept in localStorage so they're
+ * offered again next time alongside the built-in devices.
+ */
+export function useSavedDevices(): UseSavedDevicesReturn {
+  const [devices, setDevices] = useState<DeviceProfile[]>(loadDevices);
+
+  const update = useCallback((change: (devices: DeviceProfile[]) => DeviceProfile[]) => {
+    setDevices((current) => {
+      const next = change(current);
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage full or disabled: the device still works for this session
+      }
+      return next;
+    });
+  }, []);
+
+  const saveDevice = useCallback(
+    (profile: DeviceProfile) => update((list) => [...list.filter((d) => d.id !== profile.id), profile]),
+    [update]
+  );
+  const removeDevice = useCallback(
+    (id: string) => update((list) => list.filter((d) => d.id !== id)),
+    [update]
+  );
+
+  return { devices, saveDevice, removeDevice };
+}
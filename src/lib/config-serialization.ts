@@ -0,0 +1,174 @@
+import { format, parseISO, isValid } from 'date-fns';
+import type { PlannerConfig } from '../types/planner';
+import { DEFAULT_BUJO_CONFIG, DEFAULT_TOOLBAR_SIZE, DEVICE_CONFIGS, REMARKABLE_PAGE } from '../types/planner';
+import { createDefaultConfig } from './default-config';
+import type { ConfigIssue } from './config-validation';
+import { ConfigValidationError } from './config-validation';
+import { getTemplates } from './pdf/templates/registry';
+import { PLANNER_LOCALES } from './i18n';
+
+/**
+ * Current version of the saved config format.
+ * Bump this and add a migration whenever a change needs old configs rewritten.
+ */
+export const CONFIG_SCHEMA_VERSION = 1;
+
+/**
+ * JSON-safe PlannerConfig: dates are 'yyyy-MM-dd' strings and the format version is recorded.
+ */
+export interface SerializedPlannerConfig extends Omit<PlannerConfig, 'startDate' | 'endDate'> {
+  schemaVersion: number;
+  startDate: string;
+  endDate: string;
+}
+
+export class ConfigFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigFormatError';
+  }
+}
+
+type RawConfig = Record<string, unknown>;
+type Migration = (config: RawConfig) => RawConfig;
+
+/**
+ * Unversioned configs predate per-device sizes and configurable padding.
+ * They were laid out on the legacy REMARKABLE_PAGE (reMarkable 2) with its
+ * fixed margin on every side and the toolbar gap at the top.
+ */
+function migrateLegacyConfig(config: RawConfig): RawConfig {
+  return {
+    ...config,
+    device: config.device ?? 'remarkable2',
+    toolbarPosition: config.toolbarPosition ?? 'top',
+    padding: config.padding ?? {
+      top: DEFAULT_TOOLBAR_SIZE,
+      bottom: REMARKABLE_PAGE.MARGIN,
+      left: REMARKABLE_PAGE.MARGIN,
+      right: REMARKABLE_PAGE.MARGIN,
+    },
+  };
+}
+
+// MIGRATIONS[n] upgrades a version-n config to version n + 1
+const MIGRATIONS: Migration[] = [
+  migrateLegacyConfig,
+];
+
+// Allowed values for enum-like fields
+export const CONFIG_ENUM_FIELDS: Record<string, readonly unknown[]> = {
+  device: Object.keys(DEVICE_CONFIGS),
+  orientation: ['portrait', 'landscape'],
+  toolbarPosition: ['top', 'bottom', 'left', 'right'],
+  weekStartsOn: [0, 1, 6],
+  weekNumbering: ['calendar', 'iso'],
+  locale: Object.keys(PLANNER_LOCALES),
+};
+
+/**
+ * Fields of a saved config that this build can't even show in the form:
+ * a planner type it has no template for, or an unknown enum value.
+ * A custom device is fine as long as its profile travels with it.
+ */
+function findUnknownValues(config: RawConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (config.type !== undefined && !getTemplates().some((t) => t.id === config.type)) {
+    issues.push({ field: 'type', severity: 'error', message: `Unknown planner type: ${JSON.stringify(config.type)}` });
+  }
+  const profile = config.deviceProfile as { id?: unknown } | undefined;
+  for (const [field, allowed] of Object.entries(CONFIG_ENUM_FIELDS)) {
+    const value = config[field];
+    if (value === undefined || allowed.includes(value)) continue;
+    if (field === 'device' && profile?.id === value) continue;
+    issues.push({ field, severity: 'error', message: `Unknown ${field}: ${JSON.stringify(value)}` });
+  }
+  return issues;
+}
+
+/**
+ * Parse an ISO date string ('2026-01-01') as a local date.
+ */
+export function parseConfigDate(value: unknown, field: string): Date {
+  const date = value instanceof Date ? value : typeof value === 'string' ? parseISO(value) : undefined;
+  if (!date || !isValid(date)) {
+    throw new ConfigFormatError(`${field} must be an ISO date like 2026-01-01, got ${JSON.stringify(value)}`);
+  }
+  return date;
+}
+
+/**
+ * Bring a saved config of any known version up to CONFIG_SCHEMA_VERSION.
+ * Configs without schemaVersion are treated as version 0 (legacy).
+ */
+export function migrateConfig(raw: unknown): RawConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigFormatError('Expected a planner config object');
+  }
+
+  let config = raw as RawConfig;
+  const version = config.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new ConfigFormatError(`Invalid schemaVersion ${JSON.stringify(version)}`);
+  }
+  if (version > CONFIG_SCHEMA_VERSION) {
+    throw new ConfigFormatError(
+      `Config uses schema version ${version}, but this version of the builder only supports up to ${CONFIG_SCHEMA_VERSION}`
+    );
+  }
+
+  for (let v = version; v < CONFIG_SCHEMA_VERSION; v++) {
+    config = MIGRATIONS[v](config);
+  }
+
+  return { ...config, schemaVersion: CONFIG_SCHEMA_VERSION };
+}
+
+export function serializeConfig(config: PlannerConfig): SerializedPlannerConfig {
+  return {
+    schemaVersion: CONFIG_SCHEMA_VERSION,
+    ...config,
+    startDate: format(config.startDate, 'yyyy-MM-dd'),
+    endDate: format(config.endDate, 'yyyy-MM-dd'),
+  };
+}
+
+/**
+ * Turn a saved config (any schema version) back into a PlannerConfig.
+ * Fields the saved config doesn't have fall back to the builder's defaults.
+ * Throws a ConfigValidationError for planner types and enum values this
+ * build doesn't know, e.g. from a newer or foreign build.
+ */
+export function deserializeConfig(raw: unknown): PlannerConfig {
+  const migrated = migrateConfig(raw);
+  delete migrated.schemaVersion;
+  const unknownValues = findUnknownValues(migrated);
+  if (unknownValues.length > 0) {
+    throw new ConfigValidationError(unknownValues);
+  }
+  const input = migrated as Partial<Record<keyof PlannerConfig, unknown>>;
+  const defaults = createDefaultConfig();
+
+  return {
+    ...defaults,
+    ...(input as Partial<PlannerConfig>),
+    startDate: input.startDate === undefined ? defaults.startDate : parseConfigDate(input.startDate, 'startDate'),
+    endDate: input.endDate === undefined ? defaults.endDate : parseConfigDate(input.endDate, 'endDate'),
+    bujoConfig: { ...DEFAULT_BUJO_CONFIG, ...(input.bujoConfig as PlannerConfig['bujoConfig']) },
+    padding: { ...defaults.padding, ...(input.padding as PlannerConfig['padding']) },
+  };
+}
+
+export function configToJSON(config: PlannerConfig): string {
+  return JSON.stringify(serializeConfig(config), null, 2);
+}
+
+export function configFromJSON(text: string): PlannerConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ConfigFormatError('File is not valid JSON');
+  }
+  return deserializeConfig(raw);
+}
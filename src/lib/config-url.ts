@@ -0,0 +1,233 @@
+import type { PlannerConfig } from '../types/planner';
+import { BULLET_SYMBOLS, COLLECTION_TEMPLATES, DEFAULT_NAV_ITEMS, NAV_ITEM_KINDS, REVIEW_SECTION_FILLS } from '../types/planner';
+import { createDefaultConfig } from './default-config';
+import { CONFIG_ENUM_FIELDS, deserializeConfig, migrateConfig, parseConfigDate, serializeConfig } from './config-serialization';
+import { getTemplates } from './pdf/templates/registry';
+import { COLOR_THEMES, DEFAULT_THEME, THEME_COLOR_NAMES, parseHexColor } from './themes';
+
+const HASH_PREFIX = '#config=';
+
+type RawConfig = Record<string, unknown>;
+
+const NESTED_FIELDS = ['bujoConfig', 'padding'] as const;
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Shape check only; validateDeviceProfile judges the values
+function isDeviceProfile(value: unknown): boolean {
+  if (!isPlainObject(value) || !isPlainObject(value.pixels)) return false;
+  return typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.pixels.width === 'number'
+    && typeof value.pixels.height === 'number'
+    && ['number', 'undefined'].includes(typeof value.dpi)
+    && ['number', 'undefined'].includes(typeof value.diagonal);
+}
+
+function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+const isHexColor = (value: unknown): boolean => typeof value === 'string' && !!parseHexColor(value);
+
+// The palette is left out of links when it's the default, so fill it back in
+function sanitizeTheme(value: RawConfig): RawConfig | undefined {
+  const palette = value.palette ?? DEFAULT_THEME;
+  if (typeof palette !== 'string' || !Object.hasOwn(COLOR_THEMES, palette)) return undefined;
+
+  const theme: RawConfig = { palette };
+  if (isPlainObject(value.colors)) {
+    theme.colors = Object.fromEntries(
+      Object.entries(value.colors).filter(([name, color]) =>
+        (THEME_COLOR_NAMES as string[]).includes(name) && isHexColor(color))
+    );
+  }
+  if (Array.isArray(value.sectionAccents) && value.sectionAccents.every(isHexColor)) {
+    theme.sectionAccents = value.sectionAccents;
+  }
+  return theme;
+}
+
+// Nav bars of known page types, without any items this version doesn't have
+function sanitizeNavItems(value: RawConfig): RawConfig {
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([pageType, kinds]) => Object.hasOwn(DEFAULT_NAV_ITEMS, pageType) && Array.isArray(kinds))
+      .map(([pageType, kinds]) => [pageType, (kinds as unknown[]).filter((kind) => (NAV_ITEM_KINDS as unknown[]).includes(kind))])
+  );
+}
+
+// Key entries with a known symbol, a label and a description
+function isBulletKeyEntry(value: unknown): boolean {
+  return isPlainObject(value)
+    && (BULLET_SYMBOLS as unknown[]).includes(value.symbol)
+    && typeof value.label === 'string'
+    && typeof value.description === 'string';
+}
+
+// Named collections with a page count, a known page style and, if any, a known template
+function isCollection(value: unknown): boolean {
+  return isPlainObject(value)
+    && typeof value.name === 'string'
+    && Number.isInteger(value.pages)
+    && ['dotgrid', 'lined', 'blank'].includes(value.pageStyle as string)
+    && (value.template === undefined || (COLLECTION_TEMPLATES as unknown[]).includes(value.template));
+}
+
+// Weekly review sections with a title, a positive height and a known fill
+function isReviewSection(value: unknown): boolean {
+  return isPlainObject(value)
+    && typeof value.title === 'string'
+    && typeof value.height === 'number' && Number.isFinite(value.height) && value.height > 0
+    && (REVIEW_SECTION_FILLS as unknown[]).includes(value.fill);
+}
+
+/**
+ * Keep only the entries of value that differ from base, recursing into objects.
+ */
+function diffFrom(value: RawConfig, base: RawConfig): RawConfig {
+  const diff: RawConfig = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === undefined) continue;
+    if (isPlainObject(entry) && isPlainObject(base[key])) {
+      const nested = diffFrom(entry, base[key]);
+      if (Object.keys(nested).length > 0) diff[key] = nested;
+    } else if (JSON.stringify(entry) !== JSON.stringify(base[key])) {
+      diff[key] = entry;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Drop fields the builder can't use rather than rejecting the whole link:
+ * unknown keys, values of the wrong type, unknown enum values and bad dates.
+ */
+function sanitizeSharedConfig(raw: RawConfig): RawConfig {
+  const defaults = serializeConfig(createDefaultConfig()) as unknown as RawConfig;
+  const clean: RawConfig = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'title' || key === 'type') {
+      if (typeof value === 'string') clean[key] = value;
+    } else if (key === 'deviceProfile') {
+      if (isDeviceProfile(value)) clean[key] = value;
+    } else if (key === 'theme') {
+      const theme = isPlainObject(value) ? sanitizeTheme(value) : undefined;
+      if (theme) clean[key] = theme;
+    } else if (key === 'templateOptions') {
+      if (isPlainObject(value)) {
+        clean[key] = Object.fromEntries(
+          Object.entries(value).filter(([, v]) => ['number', 'boolean', 'string'].includes(typeof v))
+        );
+      }
+    } else if ((NESTED_FIELDS as readonly string[]).includes(key)) {
+      const base = defaults[key] as RawConfig;
+      if (!isPlainObject(value)) continue;
+      clean[key] = Object.fromEntries(
+        Object.entries(value).filter(([k, v]) => k in base && typeof v === typeof base[k])
+      );
+    } else if (key in defaults && typeof value === typeof defaults[key]) {
+      clean[key] = value;
+    }
+  }
+
+  if (isPlainObject(clean.bujoConfig) && clean.bujoConfig.navItems !== undefined) {
+    if (isPlainObject(clean.bujoConfig.navItems)) {
+      clean.bujoConfig.navItems = sanitizeNavItems(clean.bujoConfig.navItems);
+    } else {
+      delete clean.bujoConfig.navItems;
+    }
+  }
+  if (isPlainObject(clean.bujoConfig) && clean.bujoConfig.collections !== undefined) {
+    if (Array.isArray(clean.bujoConfig.collections)) {
+      clean.bujoConfig.collections = clean.bujoConfig.collections.filter(isCollection);
+    } else {
+      delete clean.bujoConfig.collections;
+    }
+  }
+  if (isPlainObject(clean.bujoConfig) && clean.bujoConfig.bulletKey !== undefined) {
+    if (Array.isArray(clean.bujoConfig.bulletKey)) {
+      clean.bujoConfig.bulletKey = clean.bujoConfig.bulletKey.filter(isBulletKeyEntry);
+    } else {
+      delete clean.bujoConfig.bulletKey;
+    }
+  }
+  if (isPlainObject(clean.bujoConfig) && clean.bujoConfig.weeklyReviewSections !== undefined) {
+    if (Array.isArray(clean.bujoConfig.weeklyReviewSections)) {
+      clean.bujoConfig.weeklyReviewSections = clean.bujoConfig.weeklyReviewSections.filter(isReviewSection);
+    } else {
+      delete clean.bujoConfig.weeklyReviewSections;
+    }
+  }
+  if (isPlainObject(clean.bujoConfig) && clean.bujoConfig.habits !== undefined) {
+    if (Array.isArray(clean.bujoConfig.habits)) {
+      clean.bujoConfig.habits = clean.bujoConfig.habits.filter((habit: unknown) => typeof habit === 'string');
+    } else {
+      delete clean.bujoConfig.habits;
+    }
+  }
+  if (clean.type !== undefined && !getTemplates().some((t) => t.id === clean.type)) delete clean.type;
+  // A custom device travels with its profile; either one alone is no use
+  const customDevice = isPlainObject(clean.deviceProfile) && clean.device === clean.deviceProfile.id;
+  if (!customDevice) delete clean.deviceProfile;
+  // Unknown enum values fall back to the default rather than rejecting the link
+  for (const [field, allowed] of Object.entries(CONFIG_ENUM_FIELDS)) {
+    if (field === 'device' && customDevice) continue;
+    if (clean[field] !== undefined && !allowed.includes(clean[field])) delete clean[field];
+  }
+  for (const field of ['startDate', 'endDate']) {
+    if (clean[field] === undefined) continue;
+    try {
+      parseConfigDate(clean[field], field);
+    } catch {
+      delete clean[field];
+    }
+  }
+
+  return clean;
+}
+
+/**
+ * Encode a config as a URL hash ('#config=...').
+ * Only settings that differ from the defaults are included, plus the dates,
+ * since the default dates depend on when the link is opened.
+ * Custom fonts are left out; font files are far too big for a URL.
+ */
+export function encodeConfigHash(config: PlannerConfig): string {
+  const serialized = serializeConfig({ ...config, fonts: undefined }) as unknown as RawConfig;
+  const defaults = serializeConfig(createDefaultConfig()) as unknown as RawConfig;
+  const shared = {
+    ...diffFrom(serialized, defaults),
+    schemaVersion: serialized.schemaVersion,
+    startDate: serialized.startDate,
+    endDate: serialized.endDate,
+  };
+  return HASH_PREFIX + encodeBase64Url(JSON.stringify(shared));
+}
+
+/**
+ * Restore a config from a URL hash produced by encodeConfigHash.
+ * Returns null when the hash holds no config or can't be decoded at all;
+ * individual fields that are malformed fall back to the defaults.
+ */
+export function decodeConfigHash(hash: string): PlannerConfig | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+
+  try {
+    const raw: unknown = JSON.parse(decodeBase64Url(hash.slice(HASH_PREFIX.length)));
+    return deserializeConfig(sanitizeSharedConfig(migrateConfig(raw)));
+  } catch {
+    return null;
+  }
+}
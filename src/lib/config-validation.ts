@@ -0,0 +1,400 @@
+import { differenceInCalendarDays, isValid } from 'date-fns';
+import type { BulletKeyEntry, CollectionConfig, DeviceProfile, NavItemsConfig, PlannerConfig, WeeklyReviewSection } from '../types/planner';
+import { BULLET_SYMBOLS, COLLECTION_TEMPLATES, DEFAULT_NAV_ITEMS, NAV_ITEM_KINDS, REVIEW_SECTION_FILLS, getPageSize } from '../types/planner';
+import type { PlannerTemplate } from './pdf/templates/types';
+import { getTemplates } from './pdf/templates/registry';
+import { PLANNER_LOCALES } from './i18n';
+import { getDeviceConfig, isBuiltInDevice } from './devices';
+import { COLOR_THEMES, THEME_COLOR_NAMES, parseHexColor } from './themes';
+
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem with one setting. field is the config path it belongs to,
+ * e.g. 'endDate', 'padding.left' or 'templateOptions.pageCount'.
+ */
+export interface ConfigIssue {
+  field: string;
+  severity: ConfigIssueSeverity;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(`Invalid planner config: ${issues.map((issue) => `${issue.field}: ${issue.message}`).join('; ')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+// Above this the PDF gets slow to generate and to page through on the device
+export const PAGE_COUNT_WARNING = 1000;
+export const MAX_PAGE_COUNT = 5000;
+
+// Smallest writable area (in points) left after padding
+const MIN_CONTENT_SIZE = 100;
+
+// Plausible range for an e-ink screen; outside it the page size is nonsense
+const MIN_DPI = 50;
+const MAX_DPI = 1000;
+
+function validateDates(config: PlannerConfig, issues: ConfigIssue[]): void {
+  const startValid = config.startDate instanceof Date && isValid(config.startDate);
+  const endValid = config.endDate instanceof Date && isValid(config.endDate);
+
+  if (!startValid) {
+    issues.push({ field: 'startDate', severity: 'error', message: 'Start date is not a valid date' });
+  }
+  if (!endValid) {
+    issues.push({ field: 'endDate', severity: 'error', message: 'End date is not a valid date' });
+  }
+  if (startValid && endValid && differenceInCalendarDays(config.endDate, config.startDate) < 0) {
+    issues.push({ field: 'endDate', severity: 'error', message: 'End date is before the start date' });
+  }
+}
+
+function validateTimeSlots(config: PlannerConfig, issues: ConfigIssue[]): void {
+  for (const field of ['timeStart', 'timeEnd'] as const) {
+    const hour = config[field];
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+      issues.push({ field, severity: 'error', message: 'Must be a whole hour between 0 and 23' });
+    }
+  }
+  if (config.timeStart >= config.timeEnd) {
+    issues.push({ field: 'timeEnd', severity: 'error', message: 'End time must be after the start time' });
+  }
+  if (![30, 60].includes(config.timeInterval)) {
+    issues.push({ field: 'timeInterval', severity: 'error', message: 'Time slots must be 30 or 60 minutes' });
+  }
+}
+
+/**
+ * Check a custom device before it's saved or used.
+ * Issues are reported on deviceProfile fields, e.g. 'deviceProfile.dpi'.
+ */
+export function validateDeviceProfile(profile: DeviceProfile): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const { width, height } = profile.pixels ?? { width: 0, height: 0 };
+
+  if (typeof profile.name !== 'string' || profile.name.trim() === '') {
+    issues.push({ field: 'deviceProfile.name', severity: 'error', message: 'Give the device a name' });
+  }
+
+  const pixelsValid = [width, height].every((size) => Number.isInteger(size) && size > 0);
+  if (!pixelsValid) {
+    issues.push({ field: 'deviceProfile.pixels', severity: 'error', message: 'Screen width and height must be whole pixels' });
+  } else if (width > height) {
+    issues.push({
+      field: 'deviceProfile.pixels',
+      severity: 'error',
+      message: 'Enter the screen held upright (narrower than it is tall); use Landscape to turn it',
+    });
+  }
+
+  // NaN fails every comparison, so !(x >= min) also rejects non-numbers
+  const { dpi, diagonal } = profile;
+  if (dpi !== undefined) {
+    if (!(dpi >= MIN_DPI && dpi <= MAX_DPI)) {
+      issues.push({ field: 'deviceProfile.dpi', severity: 'error', message: `DPI must be between ${MIN_DPI} and ${MAX_DPI}` });
+    }
+  } else if (diagonal === undefined) {
+    issues.push({ field: 'deviceProfile.dpi', severity: 'error', message: 'Enter the DPI or the screen diagonal' });
+  } else if (!(diagonal > 0)) {
+    issues.push({ field: 'deviceProfile.diagonal', severity: 'error', message: 'Screen diagonal must be more than 0 inches' });
+  } else if (pixelsValid) {
+    const derived = Math.hypot(width, height) / diagonal;
+    if (derived < MIN_DPI || derived > MAX_DPI) {
+      issues.push({
+        field: 'deviceProfile.diagonal',
+        severity: 'error',
+        message: `${width}×${height} pixels on a ${diagonal}" screen is ${Math.round(derived)} DPI; check the size`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function validateDevice(config: PlannerConfig, issues: ConfigIssue[]): void {
+  if (isBuiltInDevice(config.device)) return;
+
+  if (config.deviceProfile?.id !== config.device) {
+    issues.push({ field: 'device', severity: 'error', message: `Unknown device: ${config.device}` });
+    return;
+  }
+  issues.push(...validateDeviceProfile(config.deviceProfile));
+}
+
+function validatePadding(config: PlannerConfig, issues: ConfigIssue[]): void {
+  const device = getDeviceConfig(config);
+  if (!device) return;
+
+  const { padding } = config;
+  for (const side of ['top', 'bottom', 'left', 'right'] as const) {
+    if (!Number.isFinite(padding[side]) || padding[side] < 0) {
+      issues.push({ field: `padding.${side}`, severity: 'error', message: 'Padding must be zero or more' });
+    }
+  }
+
+  const { width, height } = getPageSize(device, config.orientation);
+  const contentWidth = width - padding.left - padding.right;
+  const contentHeight = height - padding.top - padding.bottom;
+
+  if (contentWidth <= 0) {
+    issues.push({
+      field: 'padding.left',
+      severity: 'error',
+      message: `Left and right padding are wider than the ${device.name} page (${width}pt)`,
+    });
+  } else if (contentWidth < MIN_CONTENT_SIZE) {
+    issues.push({
+      field: 'padding.left',
+      severity: 'warning',
+      message: `Only ${Math.round(contentWidth)}pt of width is left for content`,
+    });
+  }
+
+  if (contentHeight <= 0) {
+    issues.push({
+      field: 'padding.top',
+      severity: 'error',
+      message: `Top and bottom padding are taller than the ${device.name} page (${height}pt)`,
+    });
+  } else if (contentHeight < MIN_CONTENT_SIZE) {
+    issues.push({
+      field: 'padding.top',
+      severity: 'warning',
+      message: `Only ${Math.round(contentHeight)}pt of height is left for content`,
+    });
+  }
+}
+
+function validateFonts(config: PlannerConfig, issues: ConfigIssue[]): void {
+  for (const slot of ['regular', 'bold', 'heading'] as const) {
+    const file = config.fonts?.[slot];
+    if (file && (typeof file.data !== 'string' || file.data.length === 0)) {
+      issues.push({ field: `fonts.${slot}`, severity: 'error', message: 'Font file is empty' });
+    }
+  }
+}
+
+function validateTheme(config: PlannerConfig, issues: ConfigIssue[]): void {
+  const { theme } = config;
+  if (!theme) return;
+
+  if (!Object.hasOwn(COLOR_THEMES, theme.palette)) {
+    issues.push({ field: 'theme.palette', severity: 'error', message: `Unknown color theme: ${theme.palette}` });
+  }
+  for (const name of THEME_COLOR_NAMES) {
+    const color = theme.colors?.[name];
+    if (color !== undefined && !parseHexColor(color)) {
+      issues.push({ field: `theme.colors.${name}`, severity: 'error', message: `${color} is not a #rrggbb color` });
+    }
+  }
+  const invalidAccent = theme.sectionAccents?.find((color) => !parseHexColor(color));
+  if (invalidAccent !== undefined) {
+    issues.push({ field: 'theme.sectionAccents', severity: 'error', message: `${invalidAccent} is not a #rrggbb color` });
+  }
+}
+
+function validateNavItems(navItems: NavItemsConfig, issues: ConfigIssue[]): void {
+  for (const [pageType, kinds] of Object.entries(navItems)) {
+    const field = `bujoConfig.navItems.${pageType}`;
+    if (!Object.hasOwn(DEFAULT_NAV_ITEMS, pageType)) {
+      issues.push({ field, severity: 'error', message: `No nav bar on ${pageType} pages` });
+    } else if (!Array.isArray(kinds)) {
+      issues.push({ field, severity: 'error', message: 'Nav items must be a list' });
+    } else {
+      const unknown = kinds.find((kind) => !NAV_ITEM_KINDS.includes(kind));
+      if (unknown !== undefined) {
+        issues.push({ field, severity: 'error', message: `Unknown nav item: ${unknown}` });
+      }
+    }
+  }
+}
+
+function validateBulletKey(entries: BulletKeyEntry[], issues: ConfigIssue[]): void {
+  if (!Array.isArray(entries)) {
+    issues.push({ field: 'bujoConfig.bulletKey', severity: 'error', message: 'Bullet key must be a list' });
+    return;
+  }
+  entries.forEach((entry, i) => {
+    const field = `bujoConfig.bulletKey.${i}`;
+    if (typeof entry?.label !== 'string' || typeof entry.description !== 'string') {
+      issues.push({ field, severity: 'error', message: `Key entry ${i + 1} needs a label and description` });
+    } else if (!BULLET_SYMBOLS.includes(entry.symbol)) {
+      issues.push({ field, severity: 'error', message: `${entry.label || `Key entry ${i + 1}`}: unknown symbol ${entry.symbol}` });
+    }
+  });
+}
+
+function validateCollections(collections: CollectionConfig[], issues: ConfigIssue[]): void {
+  if (!Array.isArray(collections)) {
+    issues.push({ field: 'bujoConfig.collections', severity: 'error', message: 'Collections must be a list' });
+    return;
+  }
+  const names = new Set<string>();
+  collections.forEach((collection, i) => {
+    const field = `bujoConfig.collections.${i}`;
+    if (typeof collection?.name !== 'string' || collection.name.trim() === '') {
+      issues.push({ field, severity: 'error', message: `Collection ${i + 1} needs a name` });
+    } else if (names.has(collection.name)) {
+      issues.push({ field, severity: 'error', message: `There is already a collection called ${collection.name}` });
+    } else if (!Number.isInteger(collection.pages) || collection.pages < 1 || collection.pages > 50) {
+      issues.push({ field, severity: 'error', message: `${collection.name}: pages must be between 1 and 50` });
+    } else if (!['dotgrid', 'lined', 'blank'].includes(collection.pageStyle)) {
+      issues.push({ field, severity: 'error', message: `${collection.name}: unknown page style ${collection.pageStyle}` });
+    } else if (collection.template !== undefined && !COLLECTION_TEMPLATES.includes(collection.template)) {
+      issues.push({ field, severity: 'error', message: `${collection.name}: unknown template ${collection.template}` });
+    }
+    if (typeof collection?.name === 'string') names.add(collection.name);
+  });
+}
+
+function validateWeeklyReviewSections(sections: WeeklyReviewSection[], issues: ConfigIssue[]): void {
+  if (!Array.isArray(sections)) {
+    issues.push({ field: 'bujoConfig.weeklyReviewSections', severity: 'error', message: 'Weekly review sections must be a list' });
+    return;
+  }
+  sections.forEach((section, i) => {
+    const field = `bujoConfig.weeklyReviewSections.${i}`;
+    if (typeof section?.title !== 'string') {
+      issues.push({ field, severity: 'error', message: `Section ${i + 1} needs a title` });
+    } else if (typeof section.height !== 'number' || !Number.isFinite(section.height) || section.height <= 0) {
+      issues.push({ field, severity: 'error', message: `${section.title || `Section ${i + 1}`}: height must be a positive number` });
+    } else if (!REVIEW_SECTION_FILLS.includes(section.fill)) {
+      issues.push({ field, severity: 'error', message: `${section.title || `Section ${i + 1}`}: unknown fill ${section.fill}` });
+    }
+  });
+}
+
+function validateTemplateOptions(config: PlannerConfig, template: PlannerTemplate, issues: ConfigIssue[]): void {
+  for (const option of template.options ?? []) {
+    const value = config.templateOptions?.[option.key];
+    if (value === undefined) continue;
+
+    const field = `templateOptions.${option.key}`;
+    if (option.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ field, severity: 'error', message: `${option.label} must be a number` });
+      } else if ((option.min !== undefined && value < option.min) || (option.max !== undefined && value > option.max)) {
+        issues.push({
+          field,
+          severity: 'error',
+          message: `${option.label} must be between ${option.min ?? '-∞'} and ${option.max ?? '∞'}`,
+        });
+      }
+    } else if (option.type === 'boolean' && typeof value !== 'boolean') {
+      issues.push({ field, severity: 'error', message: `${option.label} must be on or off` });
+    } else if (option.type === 'select' && !option.choices.some((choice) => choice.value === value)) {
+      issues.push({ field, severity: 'error', message: `${option.label} has an unknown value` });
+    }
+  }
+}
+
+function validatePageCount(config: PlannerConfig, template: PlannerTemplate, issues: ConfigIssue[]): void {
+  const pageCount = template.estimatePageCount(config);
+  const field = template.features.dateRange ? 'endDate' : 'type';
+
+  if (pageCount > MAX_PAGE_COUNT) {
+    issues.push({
+      field,
+      severity: 'error',
+      message: `This would produce ~${pageCount.toLocaleString('en-US')} pages (the limit is ${MAX_PAGE_COUNT.toLocaleString('en-US')}). Shorten the date range.`,
+    });
+  } else if (pageCount > PAGE_COUNT_WARNING) {
+    issues.push({
+      field,
+      severity: 'warning',
+      message: `This will produce ~${pageCount.toLocaleString('en-US')} pages, which is slow to generate and to browse on the device`,
+    });
+  }
+}
+
+/**
+ * Check a config before generating.
+ * Errors would produce a broken or unusable PDF; warnings are worth a second look.
+ */
+export function validateConfig(config: PlannerConfig): ConfigValidationResult {
+  const issues: ConfigIssue[] = [];
+
+  const template = getTemplates().find((t) => t.id === config.type);
+  if (!template) {
+    issues.push({ field: 'type', severity: 'error', message: `Unknown planner type: ${config.type}` });
+  }
+  validateDevice(config, issues);
+  // Padding is checked against the page size, which a broken device profile doesn't have
+  if (!issues.some((issue) => issue.field.startsWith('device'))) {
+    validatePadding(config, issues);
+  }
+  validateFonts(config, issues);
+  validateTheme(config, issues);
+
+  if (config.orientation !== undefined && !['portrait', 'landscape'].includes(config.orientation)) {
+    issues.push({ field: 'orientation', severity: 'error', message: `Unknown orientation: ${config.orientation}` });
+  }
+  if (config.weekStartsOn !== undefined && ![0, 1, 6].includes(config.weekStartsOn)) {
+    issues.push({ field: 'weekStartsOn', severity: 'error', message: 'Weeks can start on Sunday, Monday or Saturday' });
+  }
+  if (config.weekNumbering !== undefined && !['calendar', 'iso'].includes(config.weekNumbering)) {
+    issues.push({ field: 'weekNumbering', severity: 'error', message: `Unknown week numbering: ${config.weekNumbering}` });
+  }
+  if (config.locale !== undefined && !Object.keys(PLANNER_LOCALES).includes(config.locale)) {
+    issues.push({ field: 'locale', severity: 'error', message: `Unsupported language: ${config.locale}` });
+  }
+
+  if (template) {
+    if (template.features.dateRange) validateDates(config, issues);
+    if (template.features.timeSlots) validateTimeSlots(config, issues);
+    validateTemplateOptions(config, template, issues);
+
+    const bujo = config.bujoConfig;
+    if (config.type === 'bujo' && bujo && (bujo.dotSpacing < 8 || bujo.dotSpacing > 24)) {
+      issues.push({ field: 'bujoConfig.dotSpacing', severity: 'error', message: 'Dot spacing must be between 8 and 24' });
+    }
+    if (config.type === 'bujo' && bujo?.sideTabs !== undefined && !['none', 'months', 'months-quarters'].includes(bujo.sideTabs)) {
+      issues.push({ field: 'bujoConfig.sideTabs', severity: 'error', message: `Unknown side tabs setting: ${bujo.sideTabs}` });
+    }
+    if (config.type === 'bujo' && bujo?.breadcrumbs !== undefined && !['none', 'below-nav', 'replace-nav'].includes(bujo.breadcrumbs)) {
+      issues.push({ field: 'bujoConfig.breadcrumbs', severity: 'error', message: `Unknown breadcrumbs setting: ${bujo.breadcrumbs}` });
+    }
+    if (config.type === 'bujo' && bujo?.yearOverview !== undefined && !['none', 'calendar', 'pixels'].includes(bujo.yearOverview)) {
+      issues.push({ field: 'bujoConfig.yearOverview', severity: 'error', message: `Unknown year overview: ${bujo.yearOverview}` });
+    }
+    if (config.type === 'bujo' && bujo?.collections) validateCollections(bujo.collections, issues);
+    if (config.type === 'bujo' && bujo?.bulletKey) validateBulletKey(bujo.bulletKey, issues);
+    if (config.type === 'bujo' && bujo?.weeklyReviewSections) validateWeeklyReviewSections(bujo.weeklyReviewSections, issues);
+    if (config.type === 'bujo' && bujo?.navItems) validateNavItems(bujo.navItems, issues);
+    if (config.type === 'bujo' && bujo?.habits !== undefined
+      && (!Array.isArray(bujo.habits) || bujo.habits.some((habit) => typeof habit !== 'string'))) {
+      issues.push({ field: 'bujoConfig.habits', severity: 'error', message: 'Habits must be a list of names' });
+    }
+
+    // Page count is only meaningful once the inputs it's estimated from are sane
+    if (!issues.some((issue) => issue.severity === 'error')) {
+      validatePageCount(config, template, issues);
+    }
+  }
+
+  return {
+    errors: issues.filter((issue) => issue.severity === 'error'),
+    warnings: issues.filter((issue) => issue.severity === 'warning'),
+  };
+}
+
+/**
+ * Throw a ConfigValidationError if the config has any errors.
+ */
+export function assertValidConfig(config: PlannerConfig): void {
+  const { errors } = validateConfig(config);
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+}
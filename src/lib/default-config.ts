@@ -0,0 +1,37 @@
+import { startOfYear, endOfYear } from 'date-fns';
+import type { PlannerConfig } from '../types/planner';
+import { DEFAULT_BUJO_CONFIG } from '../types/planner';
+import { DEFAULT_THEME } from './themes';
+
+/**
+ * The planner the builder opens with: a bullet journal for the current year.
+ */
+export function createDefaultConfig(now: Date = new Date()): PlannerConfig {
+  return {
+    type: 'bujo',
+    device: 'move',
+    orientation: 'portrait',
+    startDate: startOfYear(now),
+    endDate: endOfYear(now),
+    includeWeekends: true,
+    timeStart: 6,
+    timeEnd: 22,
+    timeInterval: 60,
+    includeIndex: true,
+    pageNumbers: true,
+    darkMode: false,
+    theme: { palette: DEFAULT_THEME },
+    pageLabels: true,
+    weekStartsOn: 0,
+    weekNumbering: 'calendar',
+    locale: 'en',
+    bujoConfig: DEFAULT_BUJO_CONFIG,
+    toolbarPosition: 'top',
+    padding: {
+      top: 40,
+      bottom: 24,
+      left: 24,
+      right: 24,
+    },
+  };
+}
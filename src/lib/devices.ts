@@ -0,0 +1,79 @@
+import type { BuiltInDeviceType, DeviceConfig, DeviceProfile, PaddingConfig, PlannerConfig, ToolbarPosition } from '../types/planner';
+import { DEFAULT_TOOLBAR_SIZE, DEVICE_CONFIGS } from '../types/planner';
+
+const POINTS_PER_INCH = 72;
+
+// The built-in devices keep a margin of about 5.5% of the page width
+const MARGIN_RATIO = 0.055;
+
+export function isBuiltInDevice(id: string): id is BuiltInDeviceType {
+  return Object.hasOwn(DEVICE_CONFIGS, id);
+}
+
+/**
+ * Pixel density of a custom device: its dpi, or worked out from the diagonal.
+ */
+export function getProfileDpi(profile: DeviceProfile): number {
+  if (profile.dpi) return profile.dpi;
+  const { width, height } = profile.pixels;
+  return Math.hypot(width, height) / (profile.diagonal ?? 0);
+}
+
+/**
+ * Page size and margin for a custom device, derived from its screen the same
+ * way the built-in sizes are: one PDF point per 1/72 inch of screen.
+ */
+export function createDeviceConfig(profile: DeviceProfile): DeviceConfig {
+  const dpi = getProfileDpi(profile);
+  const { width, height } = profile.pixels;
+  const diagonal = profile.diagonal ?? Math.hypot(width, height) / dpi;
+  const pdfWidth = Math.round((width / dpi) * POINTS_PER_INCH);
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    screenSize: `${diagonal.toFixed(1)}"`,
+    pixels: { width, height },
+    dpi: Math.round(dpi),
+    pdfPoints: { width: pdfWidth, height: Math.round((height / dpi) * POINTS_PER_INCH) },
+    margin: Math.round(pdfWidth * MARGIN_RATIO),
+  };
+}
+
+/**
+ * Padding for a device: its margin on every side, and the toolbar gap on the
+ * edge the toolbar covers.
+ */
+export function getDefaultPadding(device: DeviceConfig, toolbarPosition: ToolbarPosition): PaddingConfig {
+  return {
+    top: device.margin,
+    bottom: device.margin,
+    left: device.margin,
+    right: device.margin,
+    [toolbarPosition]: DEFAULT_TOOLBAR_SIZE,
+  };
+}
+
+/**
+ * Id for a custom device named name, e.g. 'custom-boox-note-air'.
+ * Ids in taken get a number added, so two devices with the same name both keep theirs.
+ */
+export function customDeviceId(name: string, taken: string[] = []): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const base = `custom-${slug || 'device'}`;
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * The device a config is laid out for: a built-in model, or its deviceProfile
+ * when device names that. Undefined if the config names neither.
+ */
+export function getDeviceConfig(config: Pick<PlannerConfig, 'device' | 'deviceProfile'>): DeviceConfig | undefined {
+  if (isBuiltInDevice(config.device)) return DEVICE_CONFIGS[config.device];
+  if (config.deviceProfile?.id === config.device) return createDeviceConfig(config.deviceProfile);
+  return undefined;
+}
@@ -0,0 +1,90 @@
+import type { PlannerStrings } from './types';
+
+export const ar: PlannerStrings = {
+  index: 'الفهرس',
+  key: 'المفتاح',
+  futureLog: 'السجل المستقبلي',
+  monthly: 'شهري',
+  weekly: 'أسبوعي',
+  daily: 'يومي',
+  calendar: 'التقويم',
+  tasks: 'المهام',
+  collections: 'المجموعات',
+  habits: 'العادات',
+  habitTracker: 'متتبع العادات',
+  yearOverview: 'نظرة على العام',
+  yearInPixels: 'العام بالبكسل',
+  weeklyReviews: 'المراجعات الأسبوعية',
+  dailyLogs: 'السجلات اليومية',
+  tableOfContents: 'المحتويات',
+  notes: 'ملاحظات',
+
+  collection: (n) => `مجموعة ${n}`,
+  week: (n) => `الأسبوع ${n}`,
+  weekOf: (date) => `أسبوع ${date}`,
+  page: (n) => `صفحة ${n}`,
+  quarter: (n) => `الربع ${n}`,
+
+  rapidLoggingSignifiers: 'رموز التدوين السريع',
+  bullets: {
+    task: { label: 'مهمة', description: 'شيء يجب إنجازه' },
+    complete: { label: 'منجزة', description: 'مهمة تم إنجازها' },
+    migrated: { label: 'مرحلة', description: 'نقلت إلى السجل المستقبلي' },
+    scheduled: { label: 'مجدولة', description: 'نقلت إلى تاريخ محدد' },
+    event: { label: 'حدث', description: 'مدخل مرتبط بتاريخ' },
+    note: { label: 'ملاحظة', description: 'حقائق وأفكار وخواطر' },
+    priority: { label: 'أولوية', description: 'علامة أهمية' },
+    inspiration: { label: 'إلهام', description: 'أفكار رائعة للعودة إليها' },
+  },
+
+  weeklyReview: {
+    wentWell: 'ما الذي سار جيدا',
+    toImprove: 'ما الذي يمكن تحسينه',
+    nextWeekGoals: 'أهداف الأسبوع القادم',
+  },
+
+  moods: {
+    great: 'ممتاز',
+    good: 'جيد',
+    okay: 'عادي',
+    low: 'ضعيف',
+    bad: 'سيئ',
+  },
+
+  pageLabels: {
+    cover: 'الغلاف',
+    index: 'الفهرس',
+    key: 'المفتاح',
+    future: 'المستقبل',
+    calendar: 'تقويم',
+    tasks: 'مهام',
+    week: 'أ',
+    collection: 'مجموعة',
+    habits: 'عادات',
+    year: 'السنة',
+  },
+
+  coverTitles: {
+    bujo: 'دفتر التدوين النقطي',
+    daily: 'مخطط يومي',
+    weekly: 'مخطط أسبوعي',
+    monthly: 'مخطط شهري',
+    dotgrid: 'دفتر منقط',
+    lined: 'دفتر مسطر',
+    blank: 'دفتر',
+  },
+
+  dates: {
+    dailyTitle: 'EEEE d MMMM',
+    dayLabel: 'EEE d MMM',
+    fullDate: 'EEEE d MMMM yyyy',
+    longDate: 'd MMMM yyyy',
+    shortDate: 'd MMM',
+    monthYear: 'MMMM yyyy',
+    month: 'MMMM',
+    shortMonth: 'MMM',
+    shortDay: 'EEE d',
+    pageLabelDay: 'EEE d MMM',
+    time: 'HH:mm',
+  },
+};
@@ -0,0 +1,90 @@
+import type { PlannerStrings } from './types';
+
+export const de: PlannerStrings = {
+  index: 'Index',
+  key: 'Legende',
+  futureLog: 'Zukunftsprotokoll',
+  monthly: 'Monat',
+  weekly: 'Woche',
+  daily: 'Tage',
+  calendar: 'Kalender',
+  tasks: 'Aufgaben',
+  collections: 'Sammlungen',
+  habits: 'Gewohnheiten',
+  habitTracker: 'Gewohnheitstracker',
+  yearOverview: 'Jahresübersicht',
+  yearInPixels: 'Jahr in Pixeln',
+  weeklyReviews: 'Wochenrückblicke',
+  dailyLogs: 'Tagesseiten',
+  tableOfContents: 'Inhaltsverzeichnis',
+  notes: 'Notizen',
+
+  collection: (n) => `Sammlung ${n}`,
+  week: (n) => `Woche ${n}`,
+  weekOf: (date) => `Woche vom ${date}`,
+  page: (n) => `Seite ${n}`,
+  quarter: (n) => `Q${n}`,
+
+  rapidLoggingSignifiers: 'Zeichen für Rapid Logging',
+  bullets: {
+    task: { label: 'Aufgabe', description: 'Etwas zu erledigen' },
+    complete: { label: 'Erledigt', description: 'Abgeschlossene Aufgabe' },
+    migrated: { label: 'Verschoben', description: 'Ins Zukunftsprotokoll verschoben' },
+    scheduled: { label: 'Geplant', description: 'Auf ein Datum verschoben' },
+    event: { label: 'Termin', description: 'Eintrag mit Datum' },
+    note: { label: 'Notiz', description: 'Fakten, Ideen, Gedanken' },
+    priority: { label: 'Priorität', description: 'Wichtig' },
+    inspiration: { label: 'Inspiration', description: 'Gute Ideen zum Wiederaufgreifen' },
+  },
+
+  weeklyReview: {
+    wentWell: 'Was gut lief',
+    toImprove: 'Was besser werden kann',
+    nextWeekGoals: 'Ziele für nächste Woche',
+  },
+
+  moods: {
+    great: 'Super',
+    good: 'Gut',
+    okay: 'Okay',
+    low: 'Mäßig',
+    bad: 'Schlecht',
+  },
+
+  pageLabels: {
+    cover: 'Deckblatt',
+    index: 'Index',
+    key: 'Legende',
+    future: 'Zukunft',
+    calendar: 'Kal',
+    tasks: 'Aufg',
+    week: 'KW',
+    collection: 'Slg',
+    habits: 'Gew',
+    year: 'Jahr',
+  },
+
+  coverTitles: {
+    bujo: 'Bullet Journal',
+    daily: 'Tagesplaner',
+    weekly: 'Wochenplaner',
+    monthly: 'Monatsplaner',
+    dotgrid: 'Punkteraster-Notizbuch',
+    lined: 'Liniertes Notizbuch',
+    blank: 'Notizbuch',
+  },
+
+  dates: {
+    dailyTitle: 'EEEE, d. MMMM',
+    dayLabel: 'EEE, d. MMM',
+    fullDate: 'EEEE, d. MMMM yyyy',
+    longDate: 'd. MMMM yyyy',
+    shortDate: 'd. MMM',
+    monthYear: 'MMMM yyyy',
+    month: 'MMMM',
+    shortMonth: 'MMM',
+    shortDay: 'EEE d.',
+    pageLabelDay: 'EEE d. MMM',
+    time: 'HH:mm',
+  },
+};
@@ -0,0 +1,90 @@
+import type { PlannerStrings } from './types';
+
+export const en: PlannerStrings = {
+  index: 'Index',
+  key: 'Key',
+  futureLog: 'Future Log',
+  monthly: 'Monthly',
+  weekly: 'Weekly',
+  daily: 'Daily',
+  calendar: 'Calendar',
+  tasks: 'Tasks',
+  collections: 'Collections',
+  habits: 'Habits',
+  habitTracker: 'Habit Tracker',
+  yearOverview: 'Year at a Glance',
+  yearInPixels: 'Year in Pixels',
+  weeklyReviews: 'Weekly Reviews',
+  dailyLogs: 'Daily Logs',
+  tableOfContents: 'Table of Contents',
+  notes: 'Notes',
+
+  collection: (n) => `Collection ${n}`,
+  week: (n) => `Week ${n}`,
+  weekOf: (date) => `Week of ${date}`,
+  page: (n) => `Page ${n}`,
+  quarter: (n) => `Q${n}`,
+
+  rapidLoggingSignifiers: 'Rapid Logging Signifiers',
+  bullets: {
+    task: { label: 'Task', description: 'Something to be done' },
+    complete: { label: 'Complete', description: 'Accomplished task' },
+    migrated: { label: 'Migrated', description: 'Moved to future log' },
+    scheduled: { label: 'Scheduled', description: 'Moved to specific date' },
+    event: { label: 'Event', description: 'Date-related entry' },
+    note: { label: 'Note', description: 'Facts, ideas, thoughts' },
+    priority: { label: 'Priority', description: 'Important signifier' },
+    inspiration: { label: 'Inspiration', description: 'Great ideas to revisit' },
+  },
+
+  weeklyReview: {
+    wentWell: 'What went well',
+    toImprove: 'What to improve',
+    nextWeekGoals: 'Goals for next week',
+  },
+
+  moods: {
+    great: 'Great',
+    good: 'Good',
+    okay: 'Okay',
+    low: 'Low',
+    bad: 'Bad',
+  },
+
+  pageLabels: {
+    cover: 'Cover',
+    index: 'Index',
+    key: 'Key',
+    future: 'Future',
+    calendar: 'Cal',
+    tasks: 'Tasks',
+    week: 'W',
+    collection: 'Col',
+    habits: 'Habits',
+    year: 'Year',
+  },
+
+  coverTitles: {
+    bujo: 'Bullet Journal',
+    daily: 'Daily Planner',
+    weekly: 'Weekly Planner',
+    monthly: 'Monthly Planner',
+    dotgrid: 'Dot Grid Notebook',
+    lined: 'Lined Notebook',
+    blank: 'Notebook',
+  },
+
+  dates: {
+    dailyTitle: 'EEEE MMMM do',
+    dayLabel: 'EEE, MMM d',
+    fullDate: 'EEEE, MMMM d, yyyy',
+    longDate: 'MMMM d, yyyy',
+    shortDate: 'MMM d',
+    monthYear: 'MMMM yyyy',
+    month: 'MMMM',
+    shortMonth: 'MMM',
+    shortDay: 'EEE d',
+    pageLabelDay: 'EEE MMM d',
+    time: 'h:mm a',
+  },
+};
@@ -0,0 +1,90 @@
+import type { PlannerStrings } from './types';
+
+export const es: PlannerStrings = {
+  index: 'Índice',
+  key: 'Leyenda',
+  futureLog: 'Registro futuro',
+  monthly: 'Mensual',
+  weekly: 'Semanal',
+  daily: 'Diario',
+  calendar: 'Calendario',
+  tasks: 'Tareas',
+  collections: 'Colecciones',
+  habits: 'Hábitos',
+  habitTracker: 'Registro de hábitos',
+  yearOverview: 'Resumen del año',
+  yearInPixels: 'Año en píxeles',
+  weeklyReviews: 'Revisiones semanales',
+  dailyLogs: 'Registros diarios',
+  tableOfContents: 'Contenido',
+  notes: 'Notas',
+
+  collection: (n) => `Colección ${n}`,
+  week: (n) => `Semana ${n}`,
+  weekOf: (date) => `Semana del ${date}`,
+  page: (n) => `Página ${n}`,
+  quarter: (n) => `T${n}`,
+
+  rapidLoggingSignifiers: 'Signos del registro rápido',
+  bullets: {
+    task: { label: 'Tarea', description: 'Algo por hacer' },
+    complete: { label: 'Hecha', description: 'Tarea terminada' },
+    migrated: { label: 'Migrada', description: 'Pasada al registro futuro' },
+    scheduled: { label: 'Programada', description: 'Pasada a una fecha concreta' },
+    event: { label: 'Evento', description: 'Entrada con fecha' },
+    note: { label: 'Nota', description: 'Hechos, ideas, pensamientos' },
+    priority: { label: 'Prioridad', description: 'Marca de importancia' },
+    inspiration: { label: 'Inspiración', description: 'Buenas ideas para retomar' },
+  },
+
+  weeklyReview: {
+    wentWell: 'Lo que salió bien',
+    toImprove: 'Qué mejorar',
+    nextWeekGoals: 'Objetivos para la próxima semana',
+  },
+
+  moods: {
+    great: 'Genial',
+    good: 'Bien',
+    okay: 'Normal',
+    low: 'Regular',
+    bad: 'Mal',
+  },
+
+  pageLabels: {
+    cover: 'Portada',
+    index: 'Índice',
+    key: 'Leyenda',
+    future: 'Futuro',
+    calendar: 'Cal',
+    tasks: 'Tareas',
+    week: 'S',
+    collection: 'Col',
+    habits: 'Háb',
+    year: 'Año',
+  },
+
+  coverTitles: {
+    bujo: 'Bullet Journal',
+    daily: 'Agenda diaria',
+    weekly: 'Agenda semanal',
+    monthly: 'Agenda mensual',
+    dotgrid: 'Cuaderno de puntos',
+    lined: 'Cuaderno de rayas',
+    blank: 'Cuaderno',
+  },
+
+  dates: {
+    dailyTitle: "EEEE d 'de' MMMM",
+    dayLabel: 'EEE d MMM',
+    fullDate: "EEEE, d 'de' MMMM 'de' yyyy",
+    longDate: "d 'de' MMMM 'de' yyyy",
+    shortDate: 'd MMM',
+    monthYear: 'MMMM yyyy',
+    month: 'MMMM',
+    shortMonth: 'MMM',
+    shortDay: 'EEE d',
+    pageLabelDay: 'EEE d MMM',
+    time: 'HH:mm',
+  },
+};
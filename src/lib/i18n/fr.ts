@@ -0,0 +1,90 @@
+import type { PlannerStrings } from './types';
+
+export const fr: PlannerStrings = {
+  index: 'Index',
+  key: 'Légende',
+  futureLog: 'Registre futur',
+  monthly: 'Mois',
+  weekly: 'Semaine',
+  daily: 'Jours',
+  calendar: 'Calendrier',
+  tasks: 'Tâches',
+  collections: 'Collections',
+  habits: 'Habitudes',
+  habitTracker: 'Suivi des habitudes',
+  yearOverview: 'Vue annuelle',
+  yearInPixels: 'Année en pixels',
+  weeklyReviews: 'Bilans de la semaine',
+  dailyLogs: 'Journal quotidien',
+  tableOfContents: 'Table des matières',
+  notes: 'Notes',
+
+  collection: (n) => `Collection ${n}`,
+  week: (n) => `Semaine ${n}`,
+  weekOf: (date) => `Semaine du ${date}`,
+  page: (n) => `Page ${n}`,
+  quarter: (n) => `T${n}`,
+
+  rapidLoggingSignifiers: 'Symboles du Rapid Logging',
+  bullets: {
+    task: { label: 'Tâche', description: 'Chose à faire' },
+    complete: { label: 'Terminée', description: 'Tâche accomplie' },
+    migrated: { label: 'Migrée', description: 'Déplacée vers le registre futur' },
+    scheduled: { label: 'Planifiée', description: 'Déplacée à une date précise' },
+    event: { label: 'Événement', description: 'Entrée liée à une date' },
+    note: { label: 'Note', description: 'Faits, idées, pensées' },
+    priority: { label: 'Priorité', description: 'Symbole d’importance' },
+    inspiration: { label: 'Inspiration', description: 'Idées à reprendre' },
+  },
+
+  weeklyReview: {
+    wentWell: 'Ce qui a bien marché',
+    toImprove: 'À améliorer',
+    nextWeekGoals: 'Objectifs pour la semaine prochaine',
+  },
+
+  moods: {
+    great: 'Super',
+    good: 'Bien',
+    okay: 'Moyen',
+    low: 'Bof',
+    bad: 'Mauvais',
+  },
+
+  pageLabels: {
+    cover: 'Couverture',
+    index: 'Index',
+    key: 'Légende',
+    future: 'Futur',
+    calendar: 'Cal',
+    tasks: 'Tâches',
+    week: 'S',
+    collection: 'Col',
+    habits: 'Hab',
+    year: 'Année',
+  },
+
+  coverTitles: {
+    bujo: 'Bullet Journal',
+    daily: 'Agenda quotidien',
+    weekly: 'Agenda hebdomadaire',
+    monthly: 'Agenda mensuel',
+    dotgrid: 'Carnet à points',
+    lined: 'Carnet ligné',
+    blank: 'Carnet',
+  },
+
+  dates: {
+    dailyTitle: 'EEEE d MMMM',
+    dayLabel: 'EEE d MMM',
+    fullDate: 'EEEE d MMMM yyyy',
+    longDate: 'd MMMM yyyy',
+    shortDate: 'd MMM',
+    monthYear: 'MMMM yyyy',
+    month: 'MMMM',
+    shortMonth: 'MMM',
+    shortDay: 'EEE d',
+    pageLabelDay: 'EEE d MMM',
+    time: 'HH:mm',
+  },
+};
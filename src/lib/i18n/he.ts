@@ -0,0 +1,90 @@
+import type { PlannerStrings } from './types';
+
+export const he: PlannerStrings = {
+  index: 'אינדקס',
+  key: 'מקרא',
+  futureLog: 'יומן עתידי',
+  monthly: 'חודשי',
+  weekly: 'שבועי',
+  daily: 'יומי',
+  calendar: 'לוח שנה',
+  tasks: 'משימות',
+  collections: 'אוספים',
+  habits: 'הרגלים',
+  habitTracker: 'מעקב הרגלים',
+  yearOverview: 'סקירה שנתית',
+  yearInPixels: 'שנה בפיקסלים',
+  weeklyReviews: 'סיכומים שבועיים',
+  dailyLogs: 'יומנים יומיים',
+  tableOfContents: 'תוכן עניינים',
+  notes: 'הערות',
+
+  collection: (n) => `אוסף ${n}`,
+  week: (n) => `שבוע ${n}`,
+  weekOf: (date) => `שבוע ${date}`,
+  page: (n) => `עמוד ${n}`,
+  quarter: (n) => `רבעון ${n}`,
+
+  rapidLoggingSignifiers: 'סימני רישום מהיר',
+  bullets: {
+    task: { label: 'משימה', description: 'משהו שצריך לעשות' },
+    complete: { label: 'בוצע', description: 'משימה שהושלמה' },
+    migrated: { label: 'הועבר', description: 'הועבר ליומן העתידי' },
+    scheduled: { label: 'תוזמן', description: 'הועבר לתאריך מסוים' },
+    event: { label: 'אירוע', description: 'רשומה הקשורה לתאריך' },
+    note: { label: 'הערה', description: 'עובדות, רעיונות, מחשבות' },
+    priority: { label: 'עדיפות', description: 'סימן חשיבות' },
+    inspiration: { label: 'השראה', description: 'רעיונות טובים לחזור אליהם' },
+  },
+
+  weeklyReview: {
+    wentWell: 'מה הלך טוב',
+    toImprove: 'מה לשפר',
+    nextWeekGoals: 'יעדים לשבוע הבא',
+  },
+
+  moods: {
+    great: 'מצוין',
+    good: 'טוב',
+    okay: 'בסדר',
+    low: 'חלש',
+    bad: 'רע',
+  },
+
+  pageLabels: {
+    cover: 'כריכה',
+    index: 'אינדקס',
+    key: 'מקרא',
+    future: 'עתידי',
+    calendar: 'לוח',
+    tasks: 'משימות',
+    week: 'ש',
+    collection: 'אוסף',
+    habits: 'הרגלים',
+    year: 'שנה',
+  },
+
+  coverTitles: {
+    bujo: 'בולט ג׳ורנל',
+    daily: 'מתכנן יומי',
+    weekly: 'מתכנן שבועי',
+    monthly: 'מתכנן חודשי',
+    dotgrid: 'מחברת נקודות',
+    lined: 'מחברת שורות',
+    blank: 'מחברת',
+  },
+
+  dates: {
+    dailyTitle: 'EEEE, d בMMMM',
+    dayLabel: 'EEE, d בMMM',
+    fullDate: 'EEEE, d בMMMM yyyy',
+    longDate: 'd בMMMM yyyy',
+    shortDate: 'd בMMM',
+    monthYear: 'MMMM yyyy',
+    month: 'MMMM',
+    shortMonth: 'MMM',
+    shortDay: 'EEE d',
+    pageLabelDay: 'EEE d בMMM',
+    time: 'HH:mm',
+  },
+};
@@ -0,0 +1,41 @@
+import { format } from 'date-fns';
+import type { Day } from 'date-fns';
+import { ar as arLocale, de as deLocale, enUS, es as esLocale, fr as frLocale, he as heLocale } from 'date-fns/locale';
+import type { PlannerConfig, PlannerLocale } from '../../types/planner';
+import type { LocaleDefinition, PlannerI18n } from './types';
+import { en } from './en';
+import { es } from './es';
+import { de } from './de';
+import { fr } from './fr';
+import { he } from './he';
+import { ar } from './ar';
+
+export type { DateFormats, PlannerI18n, PlannerStrings } from './types';
+
+export const PLANNER_LOCALES: Record<PlannerLocale, LocaleDefinition> = {
+  en: { id: 'en', name: 'English', direction: 'ltr', dateLocale: enUS, strings: en },
+  es: { id: 'es', name: 'Español', direction: 'ltr', dateLocale: esLocale, strings: es },
+  de: { id: 'de', name: 'Deutsch', direction: 'ltr', dateLocale: deLocale, strings: de },
+  fr: { id: 'fr', name: 'Français', direction: 'ltr', dateLocale: frLocale, strings: fr },
+  he: { id: 'he', name: 'עברית', direction: 'rtl', dateLocale: heLocale, strings: he },
+  ar: { id: 'ar', name: 'العربية', direction: 'rtl', dateLocale: arLocale, strings: ar },
+};
+
+// Spanish and French month and day names are lowercase mid-sentence,
+// but every date we draw starts a title or label
+function capitalize(text: string, locale: PlannerLocale): string {
+  return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+}
+
+export function getPlannerI18n(config: PlannerConfig): PlannerI18n {
+  const definition = PLANNER_LOCALES[config.locale ?? 'en'] ?? PLANNER_LOCALES.en;
+  const { id, direction, dateLocale, strings } = definition;
+
+  return {
+    locale: id,
+    direction,
+    strings,
+    formatDate: (date, pattern) => capitalize(format(date, pattern, { locale: dateLocale }), id),
+    weekdayName: (day, width) => capitalize(dateLocale.localize.day(day as Day, { width }), id),
+  };
+}
@@ -0,0 +1,121 @@
+import type { Locale } from 'date-fns';
+import type { PlannerLocale, PlannerType, TextDirection } from '../../types/planner';
+
+/**
+ * date-fns format patterns, ordered as each language writes dates.
+ */
+export interface DateFormats {
+  dailyTitle: string;   // BuJo daily log title, e.g. 'Monday January 5th'
+  dayLabel: string;     // Daily page label, e.g. 'Mon, Jan 5'
+  fullDate: string;     // e.g. 'Monday, January 5, 2026'
+  longDate: string;     // e.g. 'January 5, 2026'
+  shortDate: string;    // e.g. 'Jan 5'
+  monthYear: string;    // e.g. 'January 2026'
+  month: string;        // e.g. 'January'
+  shortMonth: string;   // e.g. 'Jan'
+  shortDay: string;     // e.g. 'Tue 4'
+  pageLabelDay: string; // Viewer page label for a day, e.g. 'Mon Jan 5'
+  time: string;         // Time slot label, e.g. '6:00 AM'
+}
+
+export interface BulletKeyText {
+  label: string;
+  description: string;
+}
+
+/**
+ * Every fixed piece of text drawn in a planner, in one language.
+ */
+export interface PlannerStrings {
+  // Section names, shared by page titles, nav bars, the index and the outline
+  index: string;
+  key: string;
+  futureLog: string;
+  monthly: string;
+  weekly: string;
+  daily: string;
+  calendar: string;
+  tasks: string;
+  collections: string;
+  habits: string;
+  habitTracker: string;
+  yearOverview: string;
+  yearInPixels: string;
+  weeklyReviews: string;
+  dailyLogs: string;
+  tableOfContents: string;
+  notes: string;
+
+  collection: (n: number) => string;
+  week: (n: number) => string;
+  weekOf: (date: string) => string;
+  page: (n: number) => string;
+  quarter: (n: number) => string; // Side tab label, kept short
+
+  rapidLoggingSignifiers: string;
+  bullets: {
+    task: BulletKeyText;
+    complete: BulletKeyText;
+    migrated: BulletKeyText;
+    scheduled: BulletKeyText;
+    event: BulletKeyText;
+    note: BulletKeyText;
+    priority: BulletKeyText;
+    inspiration: BulletKeyText;
+  };
+
+  weeklyReview: {
+    wentWell: string;
+    toImprove: string;
+    nextWeekGoals: string;
+  };
+
+  // Year in pixels legend, best day first
+  moods: {
+    great: string;
+    good: string;
+    okay: string;
+    low: string;
+    bad: string;
+  };
+
+  // Viewer page picker labels, kept short
+  pageLabels: {
+    cover: string;
+    index: string;
+    key: string;
+    future: string;
+    calendar: string;
+    tasks: string;
+    week: string;
+    collection: string;
+    habits: string;
+    year: string;
+  };
+
+  // Cover title per built-in template; custom templates keep their own coverTitle
+  coverTitles: Partial<Record<PlannerType, string>>;
+
+  dates: DateFormats;
+}
+
+export interface LocaleDefinition {
+  id: PlannerLocale;
+  name: string; // In its own language, for the language picker
+  direction: TextDirection;
+  dateLocale: Locale;
+  strings: PlannerStrings;
+}
+
+/**
+ * Strings and locale-aware date formatting for one planner.
+ */
+export interface PlannerI18n {
+  locale: PlannerLocale;
+  direction: TextDirection;
+  strings: PlannerStrings;
+  // Format with the locale's month and day names; the first letter is capitalized
+  formatDate: (date: Date, pattern: string) => string;
+  // Weekday name for getDay() index 0-6
+  weekdayName: (day: number, width: 'narrow' | 'abbreviated') => string;
+}
@@ -1,73 +1,57 @@
-import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
-import { format, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval } from 'date-fns';
+import { PDFDocument, PDFFont, rgb } from 'pdf-lib';
 import type { PlannerConfig, ColorScheme } from '../types/planner';
 import type { NavigationConfig } from './pdf/hyperlinks';
-import { DEVICE_CONFIGS, DENSITY_CONFIGS, getColorScheme } from '../types/planner';
+import type { Dimensions, IndexResult, PageRef, PlannerTemplate, TemplateContext } from './pdf/templates/types';
+import { getPageSize } from '../types/planner';
 import { addTocEntryLink, addNavigationLinks } from './pdf/hyperlinks';
-import { generateBujoPages, addBujoIndex } from './pdf/templates/bujo';
-import { addComprehensiveNavigation, buildPageRegistry, addMonthlyDateLinks } from './pdf/templates/bujo/navigation';
+import { createLinkRecorder } from './pdf/link-recorder';
+import { addDocumentOutline, buildFlatOutline } from './pdf/outline';
+import { addPageLabels } from './pdf/page-labels';
+import { embedPlannerFonts } from './pdf/fonts';
+import { textX } from './pdf/direction';
+import { getTemplate } from './pdf/templates/registry';
+import { assertValidConfig } from './config-validation';
+import { getDeviceConfig } from './devices';
+import { resolveColorScheme } from './themes';
+import { getPlannerI18n } from './i18n';
+import type { PlannerI18n } from './i18n';
+import { drawDarkModeBackground } from './pdf/templates/bujo/page-utils';
 
 // Helper to get device dimensions with padding config
-function getDeviceDimensions(config: PlannerConfig): Dimensions {
-  const device = DEVICE_CONFIGS[config.device];
+function getDeviceDimensions(config: PlannerConfig, i18n: PlannerI18n): Dimensions {
+  // assertValidConfig has already checked the device resolves
+  const { width, height } = getPageSize(getDeviceConfig(config)!, config.orientation);
   const { padding } = config;
   return {
-    WIDTH: device.pdfPoints.width,
-    HEIGHT: device.pdfPoints.height,
+    WIDTH: width,
+    HEIGHT: height,
     // Use left padding as MARGIN for legacy code (most content uses MARGIN for left/right)
     MARGIN: padding.left,
     // Use top padding as TOOLBAR_HEIGHT for legacy code
     TOOLBAR_HEIGHT: padding.top,
     padding,
     toolbarPosition: config.toolbarPosition,
+    rtl: i18n.direction === 'rtl',
+    landscape: width > height,
   };
 }
 
-// Helper to draw page background for dark mode
-function drawPageBackground(page: PDFPage, dims: Dimensions, colors: ColorScheme): void {
-  const { WIDTH, HEIGHT } = dims;
-  const { background } = colors;
-
-  // Only draw background if not white (dark mode)
-  if (background.r < 1 || background.g < 1 || background.b < 1) {
-    page.drawRectangle({
-      x: 0,
-      y: 0,
-      width: WIDTH,
-      height: HEIGHT,
-      color: rgb(background.r, background.g, background.b),
-    });
-  }
-}
-
-// Get planner type display name
-function getPlannerTypeName(type: PlannerConfig['type']): string {
-  const names: Record<PlannerConfig['type'], string> = {
-    bujo: 'Bullet Journal',
-    daily: 'Daily Planner',
-    weekly: 'Weekly Planner',
-    monthly: 'Monthly Planner',
-    dotgrid: 'Dot Grid Notebook',
-    lined: 'Lined Notebook',
-    blank: 'Notebook',
-  };
-  return names[type];
-}
-
 // Generate an elegant cover page
 function generateCoverPage(
   pdfDoc: PDFDocument,
   config: PlannerConfig,
+  template: PlannerTemplate,
   font: PDFFont,
-  fontBold: PDFFont,
+  fontHeading: PDFFont,
   dims: Dimensions,
-  colors: ColorScheme
+  colors: ColorScheme,
+  i18n: PlannerI18n
 ): void {
   const { WIDTH, HEIGHT, MARGIN } = dims;
   const page = pdfDoc.addPage([WIDTH, HEIGHT]);
 
   // Draw background for dark mode
-  drawPageBackground(page, dims, colors);
+  drawDarkModeBackground(page, dims, colors);
 
   const centerX = WIDTH / 2;
   const centerY = HEIGHT / 2;
@@ -108,19 +92,20 @@ function generateCoverPage(
   });
 
   // Main title
-  const title = config.title || getPlannerTypeName(config.type);
+  const title = config.title || i18n.strings.coverTitles[template.id] || template.coverTitle;
   const titleSize = Math.min(24, WIDTH / 12); // Scale for smaller devices
-  const titleWidth = fontBold.widthOfTextAtSize(title, titleSize);
+  const titleWidth = fontHeading.widthOfTextAtSize(title, titleSize);
   page.drawText(title, {
     x: centerX - titleWidth / 2,
     y: centerY + 20,
     size: titleSize,
-    font: fontBold,
+    font: fontHeading,
     color: textColor,
   });
 
   // Subtitle with date range
-  const dateRangeText = `${format(config.startDate, 'MMMM d, yyyy')} - ${format(config.endDate, 'MMMM d, yyyy')}`;
+  const { longDate } = i18n.strings.dates;
+  const dateRangeText = `${i18n.formatDate(config.startDate, longDate)} - ${i18n.formatDate(config.endDate, longDate)}`;
   const subtitleSize = Math.min(10, WIDTH / 30);
   const subtitleWidth = font.widthOfTextAtSize(dateRangeText, subtitleSize);
   page.drawText(dateRangeText, {
@@ -210,485 +195,163 @@ function generateCoverPage(
   });
 }
 
-export async function generatePlannerPDF(config: PlannerConfig): Promise<Uint8Array> {
+export interface GenerationProgress {
+  section: string;        // Section being drawn, e.g. 'Daily Logs'
+  pagesDone: number;
+  estimatedTotal: number;
+}
+
+export interface GenerateOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  // Checked before every page; aborting rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+export async function generatePlannerPDF(
+  config: PlannerConfig,
+  options: GenerateOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  signal?.throwIfAborted();
+  // Throws ConfigValidationError rather than drawing a broken planner
+  assertValidConfig(config);
+
+  const template = getTemplate(config.type);
   const pdfDoc = await PDFDocument.create();
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  const dims = getDeviceDimensions(config);
-  const colors = getColorScheme(config.darkMode);
+  const i18n = getPlannerI18n(config);
+  const { font, fontBold, fontHeading } = await embedPlannerFonts(pdfDoc, config.fonts, i18n);
+  const dims = getDeviceDimensions(config, i18n);
+  const colors = resolveColorScheme(config);
+
+  // Cover + content + (at least) one index page
+  const estimatedTotal = 1 + template.estimatePageCount(config) + (config.includeIndex ? 1 : 0);
+  const reportProgress = (section: string) => {
+    signal?.throwIfAborted();
+    const pagesDone = pdfDoc.getPageCount();
+    onProgress?.({ section, pagesDone, estimatedTotal: Math.max(estimatedTotal, pagesDone) });
+  };
 
-  // Generate cover page first
-  generateCoverPage(pdfDoc, config, font, fontBold, dims, colors);
+  const ctx: TemplateContext = {
+    pdfDoc, config, font, fontBold, fontHeading, dims, colors,
+    links: createLinkRecorder(),
+    i18n,
+    reportProgress,
+  };
 
-  const pageRefs: { label: string; pageIndex: number }[] = [];
+  // Generate cover page first
+  reportProgress('Cover');
+  generateCoverPage(pdfDoc, config, template, font, fontHeading, dims, colors, i18n);
 
-  // Store BuJo refs separately for the index
-  let bujoPageRefs: ReturnType<typeof generateBujoPages> | null = null;
+  const pageRefs = template.generate(ctx);
 
-  switch (config.type) {
-    case 'bujo': {
-      bujoPageRefs = generateBujoPages(pdfDoc, config, font, fontBold, dims, colors);
-      pageRefs.push(...bujoPageRefs.map((ref) => ({ label: ref.label, pageIndex: ref.pageIndex })));
-      break;
-    }
-    case 'daily':
-      generateDailyPages(pdfDoc, config, font, fontBold, pageRefs, dims, colors);
-      break;
-    case 'weekly':
-      generateWeeklyPages(pdfDoc, config, font, fontBold, pageRefs, dims, colors);
-      break;
-    case 'monthly':
-      generateMonthlyPages(pdfDoc, config, font, fontBold, pageRefs, dims, colors);
-      break;
-    case 'dotgrid':
-      generateDotGridPages(pdfDoc, 50, dims, colors);
-      break;
-    case 'lined':
-      generateLinedPages(pdfDoc, 50, dims, colors);
-      break;
-    case 'blank':
-      generateBlankPages(pdfDoc, 50, dims, colors);
-      break;
+  // Notebook-style templates have no index or navigation links
+  if (!template.features.navigation || pageRefs.length === 0) {
+    addDocumentMetadata(ctx, template, pageRefs, -1);
+    reportProgress('Saving');
+    return pdfDoc.save();
   }
 
   // Add table of contents / index if requested
   // Cover page is at index 0, so TOC/Index goes at index 1
-  let tocPageIndex = -1;
-  let indexPageCount = 0;
-  if (config.includeIndex && pageRefs.length > 0) {
-    tocPageIndex = 1; // TOC/Index is inserted after the cover page
-    if (bujoPageRefs) {
-      // Use BuJo-specific index with typed refs
-      const indexResult = addBujoIndex(pdfDoc, bujoPageRefs, font, fontBold, dims, 1, colors);
-      indexPageCount = indexResult.pageCount;
-
-      // Update page refs to account for inserted index pages
-      for (const ref of bujoPageRefs) {
-        ref.pageIndex += indexPageCount;
-      }
-
-      // Build registry with all pages including index
-      const allRefs = [...indexResult.indexRefs, ...bujoPageRefs];
-      const registry = buildPageRegistry(allRefs, tocPageIndex);
-
-      // Add comprehensive navigation to all pages
-      addComprehensiveNavigation(pdfDoc, font, dims, allRefs, registry, colors);
-
-      // Add links from monthly calendar dates to daily pages
-      const densityLevel = config.bujoConfig?.density || 'normal';
-      const density = DENSITY_CONFIGS[densityLevel];
-      addMonthlyDateLinks(pdfDoc, font, dims, allRefs, registry, density);
-    } else {
-      addTableOfContents(pdfDoc, pageRefs, font, fontBold, dims, colors);
-      indexPageCount = 1; // Standard TOC is always 1 page
+  if (config.includeIndex) {
+    const tocPageIndex = 1; // TOC/Index is inserted after the cover page
+    reportProgress('Index');
+    const indexResult = template.addIndex
+      ? template.addIndex(ctx, pageRefs, tocPageIndex)
+      : addTableOfContents(ctx, pageRefs, tocPageIndex);
+
+    // Update page refs to account for inserted index pages
+    for (const ref of pageRefs) {
+      ref.pageIndex += indexResult.pageCount;
     }
-  }
 
-  // Add navigation links to non-bujo pages
-  if (pageRefs.length > 0) {
-    if (bujoPageRefs && config.includeIndex) {
-      // Navigation already added above
+    const allRefs = [...indexResult.indexRefs, ...pageRefs];
+    reportProgress('Navigation');
+    if (template.addNavigation) {
+      template.addNavigation(ctx, allRefs, tocPageIndex);
     } else {
-      // Use basic navigation for other planner types
-      const totalPages = pdfDoc.getPageCount();
-      const navConfig: NavigationConfig = {
-        tocPageIndex,
-        showPrevNext: true,
-        navHeight: 20,
-        navWidth: 40,
-      };
-
-      for (let i = 0; i < totalPages; i++) {
-        const page = pdfDoc.getPage(i);
-        addNavigationLinks(pdfDoc, page, i, totalPages, navConfig, dims.WIDTH, dims.MARGIN);
-      }
+      addBasicNavigation(ctx, tocPageIndex);
     }
-  }
-
-  return pdfDoc.save();
-}
-
-interface Dimensions {
-  WIDTH: number;
-  HEIGHT: number;
-  MARGIN: number;
-  TOOLBAR_HEIGHT: number;
-  padding: {
-    top: number;
-    bottom: number;
-    left: number;
-    right: number;
-  };
-  toolbarPosition: 'top' | 'bottom' | 'left' | 'right';
-}
-
-function generateDailyPages(
-  pdfDoc: PDFDocument,
-  config: PlannerConfig,
-  font: PDFFont,
-  fontBold: PDFFont,
-  pageRefs: { label: string; pageIndex: number }[],
-  dims: Dimensions,
-  colors: ColorScheme
-) {
-  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
-  const days = eachDayOfInterval({ start: config.startDate, end: config.endDate });
-  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
-
-  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
-  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
-  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
-  const lineFaintColor = rgb(colors.lineFaint.r, colors.lineFaint.g, colors.lineFaint.b);
-
-  for (const day of days) {
-    const dayOfWeek = day.getDay();
-    if (!config.includeWeekends && (dayOfWeek === 0 || dayOfWeek === 6)) {
-      continue;
-    }
-
-    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-    drawPageBackground(page, dims, colors);
-    const pageIndex = pdfDoc.getPageCount() - 1;
-    pageRefs.push({ label: format(day, 'EEE, MMM d'), pageIndex });
-
-    // Draw header
-    const dateText = format(day, 'EEEE, MMMM d, yyyy');
-    page.drawText(dateText, {
-      x: MARGIN,
-      y: topY - 16,
-      size: 14,
-      font: fontBold,
-      color: textColor,
-    });
-
-    // Draw time slots
-    const slotHeight = 24;
-    let y = topY - 50;
-
-    for (let hour = config.timeStart; hour <= config.timeEnd; hour++) {
-      const timeText = format(new Date(2000, 0, 1, hour), 'h:mm a');
-
-      page.drawText(timeText, {
-        x: MARGIN,
-        y: y,
-        size: 10,
-        font,
-        color: mutedColor,
-      });
-
-      // Draw line
-      page.drawLine({
-        start: { x: MARGIN + 60, y: y + 4 },
-        end: { x: WIDTH - MARGIN, y: y + 4 },
-        thickness: 0.5,
-        color: lineColor,
-      });
-
-      y -= slotHeight;
-
-      if (config.timeInterval === 30 && hour < config.timeEnd) {
-        page.drawLine({
-          start: { x: MARGIN + 60, y: y + 4 },
-          end: { x: WIDTH - MARGIN, y: y + 4 },
-          thickness: 0.25,
-          color: lineFaintColor,
-          dashArray: [2, 2],
-        });
-        y -= slotHeight;
-      }
-    }
-
-    // Page number
-    if (config.pageNumbers) {
-      page.drawText(`${pageIndex + 1}`, {
-        x: WIDTH - MARGIN - 20,
-        y: MARGIN / 2,
-        size: 8,
-        font,
-        color: mutedColor,
-      });
+    addDocumentMetadata(ctx, template, allRefs, tocPageIndex);
+  } else {
+    // Templates that record their own links still need them resolved, with no index to point at
+    reportProgress('Navigation');
+    if (template.addNavigation) {
+      template.addNavigation(ctx, pageRefs, -1);
+    } else {
+      addBasicNavigation(ctx, -1);
     }
+    addDocumentMetadata(ctx, template, pageRefs, -1);
   }
-}
-
-function generateWeeklyPages(
-  pdfDoc: PDFDocument,
-  config: PlannerConfig,
-  font: PDFFont,
-  fontBold: PDFFont,
-  pageRefs: { label: string; pageIndex: number }[],
-  dims: Dimensions,
-  colors: ColorScheme
-) {
-  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
-  const weeks = eachWeekOfInterval({ start: config.startDate, end: config.endDate });
-  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
-
-  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
-  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
-  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
-
-  for (const weekStart of weeks) {
-    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-    drawPageBackground(page, dims, colors);
-    const pageIndex = pdfDoc.getPageCount() - 1;
-    pageRefs.push({ label: `Week of ${format(weekStart, 'MMM d')}`, pageIndex });
-
-    // Header
-    page.drawText(`Week of ${format(weekStart, 'MMMM d, yyyy')}`, {
-      x: MARGIN,
-      y: topY - 16,
-      size: 14,
-      font: fontBold,
-      color: textColor,
-    });
 
-    // Draw 7 columns
-    const daysToShow = config.includeWeekends ? 7 : 5;
-    const colWidth = (WIDTH - 2 * MARGIN) / daysToShow;
-    const dayNames = config.includeWeekends
-      ? ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
-      : ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
-
-    for (let i = 0; i < daysToShow; i++) {
-      const x = MARGIN + i * colWidth;
-
-      // Day header
-      page.drawText(dayNames[i], {
-        x: x + 4,
-        y: topY - 40,
-        size: 10,
-        font: fontBold,
-        color: textColor,
-      });
-
-      // Column border
-      page.drawLine({
-        start: { x, y: topY - 50 },
-        end: { x, y: MARGIN + 40 },
-        thickness: 0.5,
-        color: lineColor,
-      });
-    }
-
-    // Horizontal line under headers
-    page.drawLine({
-      start: { x: MARGIN, y: topY - 50 },
-      end: { x: WIDTH - MARGIN, y: topY - 50 },
-      thickness: 0.5,
-      color: lineColor,
-    });
-
-    // Notes section
-    page.drawText('Notes', {
-      x: MARGIN,
-      y: MARGIN + 30,
-      size: 10,
-      font: fontBold,
-      color: mutedColor,
-    });
-
-    page.drawLine({
-      start: { x: MARGIN, y: MARGIN + 40 },
-      end: { x: WIDTH - MARGIN, y: MARGIN + 40 },
-      thickness: 0.5,
-      color: lineColor,
-    });
-
-    if (config.pageNumbers) {
-      page.drawText(`${pageIndex + 1}`, {
-        x: WIDTH - MARGIN - 20,
-        y: MARGIN / 2,
-        size: 8,
-        font,
-        color: mutedColor,
-      });
-    }
-  }
+  reportProgress('Saving');
+  return pdfDoc.save();
 }
 
-function generateMonthlyPages(
-  pdfDoc: PDFDocument,
-  config: PlannerConfig,
-  font: PDFFont,
-  fontBold: PDFFont,
-  pageRefs: { label: string; pageIndex: number }[],
-  dims: Dimensions,
-  colors: ColorScheme
-) {
-  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
-  const months = eachMonthOfInterval({ start: config.startDate, end: config.endDate });
-  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
-
-  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
-  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
-  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
-
-  for (const monthStart of months) {
-    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-    drawPageBackground(page, dims, colors);
-    const pageIndex = pdfDoc.getPageCount() - 1;
-    pageRefs.push({ label: format(monthStart, 'MMMM yyyy'), pageIndex });
-
-    // Header
-    page.drawText(format(monthStart, 'MMMM yyyy'), {
-      x: MARGIN,
-      y: topY - 16,
-      size: 16,
-      font: fontBold,
-      color: textColor,
-    });
-
-    // Calendar grid
-    const colWidth = (WIDTH - 2 * MARGIN) / 7;
-    const availableHeight = topY - MARGIN - 80;
-    const rowHeight = Math.min(60, availableHeight / 6); // Scale for smaller devices
-    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-    // Day headers
-    for (let i = 0; i < 7; i++) {
-      page.drawText(dayNames[i], {
-        x: MARGIN + i * colWidth + colWidth / 2 - 10,
-        y: topY - 45,
-        size: 9,
-        font: fontBold,
-        color: mutedColor,
-      });
-    }
-
-    // Get days in month
-    const year = monthStart.getFullYear();
-    const month = monthStart.getMonth();
-    const firstDay = new Date(year, month, 1).getDay();
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-
-    let day = 1;
-    for (let row = 0; row < 6 && day <= daysInMonth; row++) {
-      const y = topY - 60 - row * rowHeight;
-
-      // Draw horizontal line
-      page.drawLine({
-        start: { x: MARGIN, y },
-        end: { x: WIDTH - MARGIN, y },
-        thickness: 0.5,
-        color: lineColor,
-      });
-
-      for (let col = 0; col < 7; col++) {
-        const x = MARGIN + col * colWidth;
-
-        // Draw vertical line
-        if (row === 0) {
-          page.drawLine({
-            start: { x, y: topY - 55 },
-            end: { x, y: topY - 60 - 6 * rowHeight },
-            thickness: 0.5,
-            color: lineColor,
-          });
-        }
-
-        if ((row === 0 && col >= firstDay) || row > 0) {
-          if (day <= daysInMonth) {
-            page.drawText(`${day}`, {
-              x: x + 4,
-              y: y - 14,
-              size: 10,
-              font,
-              color: textColor,
-            });
-            day++;
-          }
-        }
-      }
-    }
-
-    if (config.pageNumbers) {
-      page.drawText(`${pageIndex + 1}`, {
-        x: WIDTH - MARGIN - 20,
-        y: MARGIN / 2,
-        size: 8,
-        font,
-        color: mutedColor,
-      });
-    }
-  }
-}
+// Bookmarks and page labels for the reader's sidebar and page picker
+function addDocumentMetadata(
+  ctx: TemplateContext,
+  template: PlannerTemplate,
+  pageRefs: PageRef[],
+  indexPageIndex: number
+): void {
+  const items = template.buildOutline
+    ? template.buildOutline(ctx, pageRefs, indexPageIndex)
+    : buildFlatOutline(pageRefs);
+  addDocumentOutline(ctx.pdfDoc, items);
 
-function generateDotGridPages(pdfDoc: PDFDocument, count: number, dims: Dimensions, colors: ColorScheme) {
-  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
-  const dotSpacing = 14; // ~5mm at 72 DPI
-  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
-  const dotColor = rgb(colors.dot.r, colors.dot.g, colors.dot.b);
-
-  for (let i = 0; i < count; i++) {
-    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-    drawPageBackground(page, dims, colors);
-
-    for (let x = MARGIN; x <= WIDTH - MARGIN; x += dotSpacing) {
-      for (let y = MARGIN; y <= topY; y += dotSpacing) {
-        page.drawCircle({
-          x,
-          y,
-          size: 0.5,
-          color: dotColor,
-        });
-      }
-    }
+  if (ctx.config.pageLabels) {
+    addPageLabels(ctx.pdfDoc, pageRefs, ctx.i18n);
   }
 }
 
-function generateLinedPages(pdfDoc: PDFDocument, count: number, dims: Dimensions, colors: ColorScheme) {
-  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
-  const lineSpacing = 24; // College ruled
-  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
-  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
-
-  for (let i = 0; i < count; i++) {
-    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-    drawPageBackground(page, dims, colors);
-
-    for (let y = topY - lineSpacing; y >= MARGIN; y -= lineSpacing) {
-      page.drawLine({
-        start: { x: MARGIN, y },
-        end: { x: WIDTH - MARGIN, y },
-        thickness: 0.5,
-        color: lineColor,
-      });
-    }
-  }
-}
+// Prev/next and TOC links along the bottom of every page, or the top when the toolbar is at the bottom
+function addBasicNavigation(ctx: TemplateContext, tocPageIndex: number): void {
+  const { pdfDoc, dims } = ctx;
+  const { WIDTH, HEIGHT, padding } = dims;
+  const totalPages = pdfDoc.getPageCount();
+  const navConfig: NavigationConfig = {
+    tocPageIndex,
+    showPrevNext: true,
+    navHeight: 20,
+    navWidth: 40,
+    rtl: dims.rtl,
+  };
+  const strip = {
+    left: padding.left,
+    right: WIDTH - padding.right,
+    y: dims.toolbarPosition === 'bottom'
+      ? HEIGHT - padding.top / 2 - navConfig.navHeight
+      : padding.bottom / 2,
+  };
 
-function generateBlankPages(pdfDoc: PDFDocument, count: number, dims: Dimensions, colors: ColorScheme) {
-  const { WIDTH, HEIGHT } = dims;
-  for (let i = 0; i < count; i++) {
-    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-    drawPageBackground(page, dims, colors);
+  for (let i = 0; i < totalPages; i++) {
+    const page = pdfDoc.getPage(i);
+    addNavigationLinks(pdfDoc, page, i, totalPages, navConfig, strip);
   }
 }
 
 function addTableOfContents(
-  pdfDoc: PDFDocument,
-  pageRefs: { label: string; pageIndex: number }[],
-  font: PDFFont,
-  fontBold: PDFFont,
-  dims: Dimensions,
-  colors: ColorScheme
-) {
+  ctx: TemplateContext,
+  pageRefs: PageRef[],
+  insertAt: number
+): IndexResult {
+  const { pdfDoc, font, fontHeading, dims, colors, i18n } = ctx;
   const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
   const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
 
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
   const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
 
-  // Insert TOC after the cover page (index 1)
-  const tocPage = pdfDoc.insertPage(1, [WIDTH, HEIGHT]);
-  drawPageBackground(tocPage, dims, colors);
+  // Insert TOC after the cover page
+  const tocPage = pdfDoc.insertPage(insertAt, [WIDTH, HEIGHT]);
+  drawDarkModeBackground(tocPage, dims, colors);
 
-  tocPage.drawText('Table of Contents', {
-    x: MARGIN,
+  tocPage.drawText(i18n.strings.tableOfContents, {
+    x: textX(dims, MARGIN, i18n.strings.tableOfContents, fontHeading, 16),
     y: topY - 5,
     size: 16,
-    font: fontBold,
+    font: fontHeading,
     color: textColor,
   });
 
@@ -702,15 +365,16 @@ function addTableOfContents(
     }
 
     tocPage.drawText(ref.label, {
-      x: MARGIN,
+      x: textX(dims, MARGIN, ref.label, font, 10),
       y,
       size: 10,
       font,
       color: textColor,
     });
 
-    tocPage.drawText(`${ref.pageIndex + 2}`, { // +2: cover is page 1, TOC is page 2
-      x: WIDTH - MARGIN - 20,
+    const pageNumber = `${ref.pageIndex + 2}`; // +2: TOC page shifts content by 1, page numbers are 1-based
+    tocPage.drawText(pageNumber, {
+      x: textX(dims, WIDTH - MARGIN - 20, pageNumber, font, 10),
       y,
       size: 10,
       font,
@@ -718,9 +382,14 @@ function addTableOfContents(
     });
 
     // Add clickable link for this TOC entry
-    // +1 because TOC is inserted at index 1, shifting content pages up by 1
+    // +1 because the TOC page is inserted before the content pages, shifting them up by 1
     addTocEntryLink(pdfDoc, tocPage, y, ref.pageIndex + 1, WIDTH, MARGIN, lineHeight);
 
     y -= lineHeight;
   }
+
+  return {
+    pageCount: 1,
+    indexRefs: [{ label: i18n.strings.tableOfContents, pageIndex: insertAt, type: 'index' }],
+  };
 }
@@ -0,0 +1,76 @@
+import type { PlannerConfig } from '../types/planner';
+import type { GenerateOptions, GenerationProgress } from './pdf-generator';
+import type { ConfigIssue } from './config-validation';
+import { ConfigValidationError } from './config-validation';
+
+// Messages sent to the PDF worker
+export interface PdfWorkerRequest {
+  type: 'generate';
+  config: PlannerConfig;
+}
+
+// Messages posted back by the PDF worker
+export type PdfWorkerResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'done'; buffer: ArrayBuffer }
+  // issues is set when the config failed validation
+  | { type: 'error'; message: string; issues?: ConfigIssue[] };
+
+/**
+ * Generate a planner PDF in a dedicated Web Worker so the UI stays responsive.
+ * Each call gets its own worker; aborting the signal terminates it immediately
+ * and rejects with the signal's reason.
+ */
+export function generatePlannerPDFInWorker(
+  config: PlannerConfig,
+  options: GenerateOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/pdf.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<PdfWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          finish();
+          resolve(new Uint8Array(message.buffer));
+          break;
+        case 'error':
+          finish();
+          reject(message.issues ? new ConfigValidationError(message.issues) : new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'PDF worker failed'));
+    };
+
+    const request: PdfWorkerRequest = { type: 'generate', config };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,38 @@
+import type { PDFFont } from 'pdf-lib';
+import type { Dimensions } from './templates/types';
+import type { LinkRect } from './hyperlinks';
+
+// Pages are laid out left to right. For right-to-left planners every x is
+// mirrored within the content area (padding.left to WIDTH - padding.right),
+// so the toolbar gap and margins stay on the side of the page they were set for.
+
+/**
+ * x of something width wide that a left-to-right layout would put at x.
+ */
+export function layoutX(dims: Dimensions, x: number, width: number = 0): number {
+  if (!dims.rtl) return x;
+  return dims.padding.left + dims.WIDTH - dims.padding.right - x - width;
+}
+
+/**
+ * x for text that starts at x in a left-to-right layout; in RTL it ends there.
+ */
+export function textX(dims: Dimensions, x: number, text: string, font: PDFFont, size: number): number {
+  return layoutX(dims, x, font.widthOfTextAtSize(text, size));
+}
+
+export function layoutRect(dims: Dimensions, rect: LinkRect): LinkRect {
+  return { ...rect, x: layoutX(dims, rect.x, rect.width) };
+}
+
+const MIRRORED_ARROWS: Record<string, string> = { '<': '>', '>': '<', '‹': '›', '›': '‹' };
+
+/**
+ * '<' and '>' (and '‹' '›') point the way pages turn, which flips in RTL.
+ * Padding flips sides too: ' >' after a label becomes '< ' before it.
+ */
+export function layoutArrow(dims: Dimensions, arrow: string): string {
+  if (!dims.rtl) return arrow;
+  const [, leading, core, trailing] = /^(\s*)(.*?)(\s*)$/s.exec(arrow)!;
+  return trailing + core.replace(/[<>‹›]/g, (char) => MIRRORED_ARROWS[char]) + leading;
+}
@@ -0,0 +1,93 @@
+import { StandardFonts } from 'pdf-lib';
+import type { PDFDocument, PDFFont } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { FontConfig, FontFile } from '../../types/planner';
+import type { PlannerI18n } from '../i18n';
+
+export interface PlannerFonts {
+  font: PDFFont;
+  fontBold: PDFFont;
+  fontHeading: PDFFont;
+}
+
+// Hebrew and Arabic letters, including Arabic presentation forms
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+// Numbers and Latin words embedded in right-to-left text, e.g. '12', '14:00', 'W3'
+const LTR_RUN = /[0-9A-Za-z\u00C0-\u024F]+(?:[.:/,-][0-9A-Za-z\u00C0-\u024F]+)*/g;
+
+/**
+ * fontkit shapes right-to-left text by reversing every glyph, which also
+ * reverses numbers ('2026' comes out as '6202'). Reversing each left-to-right
+ * run first means the second reversal puts it back the right way round.
+ */
+function toFontkitOrder(text: string): string {
+  if (!RTL_CHAR.test(text)) return text;
+  return text.replace(LTR_RUN, (run) => [...run].reverse().join(''));
+}
+
+function withBidiRuns(font: PDFFont): PDFFont {
+  const encodeText = font.encodeText.bind(font);
+  const widthOfTextAtSize = font.widthOfTextAtSize.bind(font);
+  font.encodeText = (text) => encodeText(toFontkitOrder(text));
+  font.widthOfTextAtSize = (text, size) => widthOfTextAtSize(toFontkitOrder(text), size);
+  return font;
+}
+
+// Data URLs, loaded on demand so left-to-right planners don't download them
+async function loadUnicodeFonts(): Promise<[string, string]> {
+  const [regular, bold] = await Promise.all([
+    import('dejavu-fonts-ttf/ttf/DejaVuSans.ttf?inline'),
+    import('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?inline'),
+  ]);
+  return [regular.default, bold.default];
+}
+
+async function embedBuiltInFonts(pdfDoc: PDFDocument, i18n: PlannerI18n): Promise<[PDFFont, PDFFont]> {
+  if (i18n.direction === 'ltr') {
+    return [
+      await pdfDoc.embedFont(StandardFonts.Helvetica),
+      await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    ];
+  }
+
+  const [regular, bold] = await loadUnicodeFonts();
+  return [
+    withBidiRuns(await pdfDoc.embedFont(regular, { subset: true })),
+    withBidiRuns(await pdfDoc.embedFont(bold, { subset: true })),
+  ];
+}
+
+async function embedFontFile(pdfDoc: PDFDocument, file: FontFile): Promise<PDFFont> {
+  try {
+    return withBidiRuns(await pdfDoc.embedFont(file.data, { subset: true }));
+  } catch {
+    throw new Error(`Couldn't load ${file.name}: not a TrueType or OpenType font`);
+  }
+}
+
+/**
+ * Embed the fonts every page is drawn with.
+ * Latin planners use the built-in Helvetica. Right-to-left languages need a
+ * font with Hebrew and Arabic glyphs and shaping, so DejaVu Sans is subset-embedded.
+ * Custom fonts in config.fonts replace these; only the glyphs used are embedded.
+ */
+export async function embedPlannerFonts(
+  pdfDoc: PDFDocument,
+  fonts: FontConfig | undefined,
+  i18n: PlannerI18n
+): Promise<PlannerFonts> {
+  pdfDoc.registerFontkit(fontkit);
+
+  const regular = fonts?.regular && await embedFontFile(pdfDoc, fonts.regular);
+  const bold = fonts?.bold ? await embedFontFile(pdfDoc, fonts.bold) : regular;
+  const heading = fonts?.heading && await embedFontFile(pdfDoc, fonts.heading);
+
+  // Only load the built-in fonts if a custom one leaves a gap
+  const [builtInRegular, builtInBold] = regular && bold
+    ? [regular, bold]
+    : await embedBuiltInFonts(pdfDoc, i18n);
+
+  const font = regular ?? builtInRegular;
+  const fontBold = bold ?? builtInBold;
+  return { font, fontBold, fontHeading: heading ?? fontBold };
+}
@@ -50,11 +50,12 @@ export interface NavigationConfig {
   showPrevNext: boolean;
   navHeight: number;
   navWidth: number;
+  rtl?: boolean; // Right-to-left planners turn back to the right
 }
 
 /**
- * Adds navigation links to a page (prev, next, and index/TOC).
- * Links are placed at the bottom of the page.
+ * Adds navigation links to a page (prev, next, and index/TOC), spread
+ * across the horizontal strip from left to right at height y.
  */
 export function addNavigationLinks(
   pdfDoc: PDFDocument,
@@ -62,17 +63,18 @@ export function addNavigationLinks(
   pageIndex: number,
   totalPages: number,
   config: NavigationConfig,
-  pageWidth: number,
-  margin: number
+  strip: { left: number; right: number; y: number }
 ): void {
-  const { tocPageIndex, showPrevNext, navHeight, navWidth } = config;
-  const navY = margin / 2;
+  const { tocPageIndex, showPrevNext, navHeight, navWidth, rtl } = config;
+  const { left, right, y } = strip;
+  const leftX = left;
+  const rightX = right - navWidth;
 
-  // Previous page link (left side)
+  // Previous page link (left side, right side for RTL)
   if (showPrevNext && pageIndex > 0) {
     createInternalLink(pdfDoc, page, {
-      x: margin,
-      y: navY,
+      x: rtl ? rightX : leftX,
+      y,
       width: navWidth,
       height: navHeight,
     }, pageIndex - 1);
@@ -81,18 +83,18 @@ export function addNavigationLinks(
   // TOC/Index link (center)
   if (tocPageIndex >= 0) {
     createInternalLink(pdfDoc, page, {
-      x: pageWidth / 2 - navWidth / 2,
-      y: navY,
+      x: (left + right) / 2 - navWidth / 2,
+      y,
       width: navWidth,
       height: navHeight,
     }, tocPageIndex);
   }
 
-  // Next page link (right side)
+  // Next page link (right side, left side for RTL)
   if (showPrevNext && pageIndex < totalPages - 1) {
     createInternalLink(pdfDoc, page, {
-      x: pageWidth - margin - navWidth,
-      y: navY,
+      x: rtl ? leftX : rightX,
+      y,
       width: navWidth,
       height: navHeight,
     }, pageIndex + 1);
@@ -0,0 +1,79 @@
+import type { PDFDocument, PDFPage } from 'pdf-lib';
+import type { LinkRect } from './hyperlinks';
+import { createInternalLink } from './hyperlinks';
+
+/**
+ * A link hit-region captured while a page was drawn.
+ * target is a symbolic destination such as 'daily:2026-03-04' or
+ * 'monthly-tasks:2026-03', resolved to a page index after all pages exist.
+ */
+export interface RecordedLink {
+  page: PDFPage;
+  rect: LinkRect;
+  target: string;
+}
+
+export interface LinkRecorder {
+  links: RecordedLink[];
+}
+
+/**
+ * Resolves a symbolic target to a page index, given the index of the page the
+ * link sits on. Returns undefined when the target page doesn't exist.
+ */
+export type LinkResolver = (target: string, sourcePageIndex: number) => number | undefined;
+
+export function createLinkRecorder(): LinkRecorder {
+  return { links: [] };
+}
+
+/**
+ * Build a symbolic link target from a kind and optional key.
+ */
+export function linkTarget(kind: string, key?: string | number): string {
+  return key === undefined ? kind : `${kind}:${key}`;
+}
+
+/**
+ * Split a symbolic link target into its kind and key.
+ */
+export function parseLinkTarget(target: string): { kind: string; key?: string } {
+  const separator = target.indexOf(':');
+  if (separator === -1) {
+    return { kind: target };
+  }
+  return { kind: target.slice(0, separator), key: target.slice(separator + 1) };
+}
+
+export function recordLink(
+  recorder: LinkRecorder,
+  page: PDFPage,
+  rect: LinkRect,
+  target: string
+): void {
+  recorder.links.push({ page, rect, target });
+}
+
+/**
+ * Turn every recorded hit-region into a link annotation.
+ * Call once all pages (including inserted index pages) are in place,
+ * since page indices are only final then. Unresolvable targets are skipped.
+ */
+export function resolveRecordedLinks(
+  pdfDoc: PDFDocument,
+  recorder: LinkRecorder,
+  resolve: LinkResolver
+): void {
+  const pageIndices = new Map<PDFPage, number>();
+  pdfDoc.getPages().forEach((page, index) => pageIndices.set(page, index));
+
+  for (const link of recorder.links) {
+    const sourcePageIndex = pageIndices.get(link.page);
+    if (sourcePageIndex === undefined) continue;
+
+    const targetPage = resolve(link.target, sourcePageIndex);
+    if (targetPage !== undefined) {
+      createInternalLink(pdfDoc, link.page, link.rect, targetPage);
+    }
+  }
+}
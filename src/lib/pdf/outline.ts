@@ -0,0 +1,69 @@
+import { PDFDocument, PDFName, PDFHexString } from 'pdf-lib';
+import type { PDFDict, PDFRef } from 'pdf-lib';
+import type { PageRef } from './templates/types';
+
+/**
+ * One bookmark in the PDF outline (the reader's table-of-contents sidebar).
+ */
+export interface OutlineItem {
+  title: string;
+  pageIndex: number;
+  children?: OutlineItem[];
+}
+
+/**
+ * One top-level bookmark per page ref, in document order.
+ */
+export function buildFlatOutline(pageRefs: PageRef[]): OutlineItem[] {
+  return [...pageRefs]
+    .sort((a, b) => a.pageIndex - b.pageIndex)
+    .map((ref) => ({ title: ref.label, pageIndex: ref.pageIndex }));
+}
+
+/**
+ * Write items as the document's /Outlines tree.
+ * Top-level items are shown; nested items start collapsed.
+ */
+export function addDocumentOutline(pdfDoc: PDFDocument, items: OutlineItem[]): void {
+  if (items.length === 0) return;
+
+  const { context } = pdfDoc;
+  const pages = pdfDoc.getPages();
+
+  // Writes a run of siblings, returning refs to the first and last
+  const addItems = (siblings: OutlineItem[], parentRef: PDFRef): { first: PDFRef; last: PDFRef } => {
+    const refs = siblings.map(() => context.nextRef());
+
+    siblings.forEach((item, i) => {
+      const dict: PDFDict = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parentRef,
+        Dest: [pages[item.pageIndex].ref, 'XYZ', null, null, null],
+      });
+      if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < siblings.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+
+      if (item.children && item.children.length > 0) {
+        const { first, last } = addItems(item.children, refs[i]);
+        dict.set(PDFName.of('First'), first);
+        dict.set(PDFName.of('Last'), last);
+        // Negative count: closed, with this many children once opened
+        dict.set(PDFName.of('Count'), context.obj(-item.children.length));
+      }
+
+      context.assign(refs[i], dict);
+    });
+
+    return { first: refs[0], last: refs[refs.length - 1] };
+  };
+
+  const rootRef = context.nextRef();
+  const { first, last } = addItems(items, rootRef);
+  context.assign(rootRef, context.obj({
+    Type: 'Outlines',
+    First: first,
+    Last: last,
+    Count: items.length,
+  }));
+  pdfDoc.catalog.set(PDFName.of('Outlines'), rootRef);
+}
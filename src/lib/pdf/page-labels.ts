@@ -0,0 +1,79 @@
+import { PDFDocument, PDFName, PDFNumber, PDFHexString } from 'pdf-lib';
+import type { PDFObject } from 'pdf-lib';
+import { format } from 'date-fns';
+import type { PageRef } from './templates/types';
+import type { PlannerI18n } from '../i18n';
+
+// Page types whose labels are always numbered ('Index 1', 'Col 3')
+const NUMBERED_TYPES = new Set(['index', 'collection']);
+
+/**
+ * Short label for a page, e.g. 'Jan Cal', 'W10', 'Tue Mar 4'.
+ * Viewer page pickers are narrow, so these are terser than PageRef.label.
+ */
+function basePageLabel(ref: PageRef, i18n: PlannerI18n): string {
+  const { date } = ref;
+  const { pageLabels, dates } = i18n.strings;
+
+  switch (ref.type) {
+    case 'index':
+      return pageLabels.index;
+    case 'key':
+      return pageLabels.key;
+    case 'year':
+      return date ? `${pageLabels.year} ${date.getFullYear()}` : pageLabels.year;
+    case 'future':
+      return pageLabels.future;
+    case 'monthly':
+      return date ? `${i18n.formatDate(date, dates.shortMonth)} ${pageLabels.calendar}` : ref.label;
+    case 'monthly-tasks':
+      return date ? `${i18n.formatDate(date, dates.shortMonth)} ${pageLabels.tasks}` : ref.label;
+    case 'habits':
+      return date ? `${i18n.formatDate(date, dates.shortMonth)} ${pageLabels.habits}` : ref.label;
+    case 'weekly':
+      return ref.weekIndex !== undefined ? `${pageLabels.week}${ref.weekIndex}` : ref.label;
+    case 'daily':
+      return date ? i18n.formatDate(date, dates.pageLabelDay) : ref.label;
+    case 'collection':
+      return ref.collection ?? pageLabels.collection;
+    case 'page':
+      return ref.label;
+  }
+}
+
+/**
+ * Write a /PageLabels number tree so viewers show 'Tue Mar 4' instead of '127'.
+ * The cover (page 0) is labelled 'Cover'; pages without a ref keep their number.
+ * Where a page has several refs (combined calendar/tasks pages) the first wins.
+ */
+export function addPageLabels(pdfDoc: PDFDocument, pageRefs: PageRef[], i18n: PlannerI18n): void {
+  const { context } = pdfDoc;
+  const labels = new Map<number, string>([[0, i18n.strings.pageLabels.cover]]);
+  const seen = new Map<string, number>();
+
+  for (const ref of [...pageRefs].sort((a, b) => a.pageIndex - b.pageIndex)) {
+    if (labels.has(ref.pageIndex)) continue;
+
+    const base = basePageLabel(ref, i18n);
+    // Same label in another year isn't a repeat
+    const key = `${ref.type}:${ref.date ? format(ref.date, 'yyyy-MM') : ''}:${base}`;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+
+    // Repeats get an ordinal: 'Jan Cal', 'Jan Cal 2'
+    const numbered = NUMBERED_TYPES.has(ref.type) || count > 1;
+    labels.set(ref.pageIndex, numbered ? `${base} ${count}` : base);
+  }
+
+  // Each labelled page starts its own range; unlabelled pages fall back to decimals
+  const nums: PDFObject[] = [];
+  for (let i = 0; i < pdfDoc.getPageCount(); i++) {
+    const label = labels.get(i);
+    nums.push(PDFNumber.of(i));
+    nums.push(label !== undefined
+      ? context.obj({ P: PDFHexString.fromText(label) })
+      : context.obj({ S: 'D', St: i + 1 }));
+  }
+
+  pdfDoc.catalog.set(PDFName.of('PageLabels'), context.obj({ Nums: nums }));
+}
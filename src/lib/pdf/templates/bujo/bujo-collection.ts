@@ -1,17 +1,89 @@
+import { rgb } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import type { CollectionConfig, CollectionTemplate } from '../../../../types/planner';
 import type { BujoGeneratorContext, PageRef } from './types';
-import { drawTopNavigation, drawPageTitle, drawPageBackground, drawDarkModeBackground, getNavLabels } from './page-utils';
+import { drawNavigation, drawPageTitle, drawPageBackground, drawDarkModeBackground, fitText } from './page-utils';
+import { getNavItems } from './navigation';
+import { layoutRect, layoutX, textX } from '../../direction';
 
+const TABLE_COLUMNS = 3;
+
+/**
+ * Draw a collection template from top down to the bottom padding: a box or a
+ * number at the start of each line, or table columns under a header row.
+ * Numbered lists start at firstNumber so they run on across a collection's pages.
+ * Returns how many lines the page has.
+ */
+function drawCollectionTemplate(
+  page: PDFPage,
+  ctx: BujoGeneratorContext,
+  template: CollectionTemplate,
+  top: number,
+  firstNumber: number
+): number {
+  const { font, dims, density, colors } = ctx;
+  const { WIDTH, padding } = dims;
+  const left = padding.left;
+  const right = WIDTH - padding.right;
+  const lineHeight = density.lineHeight;
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const rows = Math.floor((top - padding.bottom) / lineHeight);
+
+  if (template === 'table') {
+    const headerY = top - lineHeight * 1.5;
+    page.drawLine({
+      start: { x: layoutX(dims, left), y: headerY },
+      end: { x: layoutX(dims, right), y: headerY },
+      thickness: 0.5,
+      color: lineColor,
+    });
+    const columnWidth = (right - left) / TABLE_COLUMNS;
+    for (let i = 1; i < TABLE_COLUMNS; i++) {
+      const x = layoutX(dims, left + i * columnWidth);
+      page.drawLine({ start: { x, y: top }, end: { x, y: padding.bottom }, thickness: 0.5, color: lineColor });
+    }
+    return rows;
+  }
+
+  const numberSize = density.fontSize - 1;
+  for (let i = 0; i < rows; i++) {
+    const y = top - (i + 1) * lineHeight + 2;
+    if (template === 'checklist') {
+      page.drawRectangle({
+        ...layoutRect(dims, { x: left + 1, y, width: 6, height: 6 }),
+        borderColor: lineColor,
+        borderWidth: 0.5,
+      });
+    } else {
+      const number = `${firstNumber + i}.`;
+      page.drawText(number, {
+        x: textX(dims, left, number, font, numberSize),
+        y,
+        size: numberSize,
+        font,
+        color: mutedColor,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Untitled collection pages ('Collection 1', 'Collection 2', ...) in the
+ * planner's collection page style, stepped through as one collection.
+ */
 export function generateCollectionPages(
   ctx: BujoGeneratorContext,
   count: number
 ): PageRef[] {
-  const { pdfDoc, font, fontBold, dims, density, collectionPageStyle, dotSpacing, nav, colors } = ctx;
+  const { pdfDoc, font, fontHeading, dims, density, collectionPageStyle, dotSpacing, nav, colors, links, i18n } = ctx;
   const { WIDTH, HEIGHT, padding } = dims;
 
   const pageRefs: PageRef[] = [];
 
   // Get nav labels for collection pages
-  const navLabels = getNavLabels('collection', nav);
+  const navItems = getNavItems('collection', nav, i18n);
 
   for (let i = 0; i < count; i++) {
     const page = pdfDoc.addPage([WIDTH, HEIGHT]);
@@ -21,18 +93,62 @@ export function generateCollectionPages(
     drawDarkModeBackground(page, dims, colors);
 
     // Top navigation
-    const navY = drawTopNavigation(page, font, dims, colors, navLabels);
+    const navY = drawNavigation(page, font, dims, colors, navItems, links);
 
     // Title placeholder
-    const contentTop = drawPageTitle(page, `Collection ${i + 1}`, fontBold, dims, colors, navY, 10);
+    const contentTop = drawPageTitle(page, i18n.strings.collection(i + 1), fontHeading, dims, colors, navY, 10, colors.accent);
 
     // Draw background based on style
     drawPageBackground(page, collectionPageStyle, contentTop, padding.bottom, dims, colors, density.lineHeight, dotSpacing);
 
     pageRefs.push({
-      label: `Collection ${i + 1}`,
+      label: i18n.strings.collection(i + 1),
+      pageIndex,
+      type: 'collection',
+    });
+  }
+
+  return pageRefs;
+}
+
+/**
+ * Pages of one named collection, titled with its name and drawn in its own
+ * page style and template. Their prev/next links stay within the collection.
+ */
+export function generateNamedCollection(
+  ctx: BujoGeneratorContext,
+  collection: CollectionConfig
+): PageRef[] {
+  const { pdfDoc, font, fontHeading, dims, density, dotSpacing, nav, colors, links, i18n } = ctx;
+  const { WIDTH, HEIGHT, padding } = dims;
+  const { name, template } = collection;
+
+  const pageRefs: PageRef[] = [];
+  const navItems = getNavItems('collection', nav, i18n);
+  let nextNumber = 1;
+
+  for (let i = 0; i < collection.pages; i++) {
+    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+    const pageIndex = pdfDoc.getPageCount() - 1;
+
+    drawDarkModeBackground(page, dims, colors);
+    const navY = drawNavigation(page, font, dims, colors, navItems, links);
+
+    // Names are the user's own, so long ones are shortened to fit the page
+    const title = i === 0 ? name : `${name} (${i + 1})`;
+    const titleText = fitText(title, fontHeading, 10, WIDTH - padding.left - padding.right);
+    const contentTop = drawPageTitle(page, titleText, fontHeading, dims, colors, navY, 10, colors.accent);
+
+    drawPageBackground(page, collection.pageStyle, contentTop, padding.bottom, dims, colors, density.lineHeight, dotSpacing);
+    if (template) {
+      nextNumber += drawCollectionTemplate(page, ctx, template, contentTop, nextNumber);
+    }
+
+    pageRefs.push({
+      label: title,
       pageIndex,
       type: 'collection',
+      collection: name,
     });
   }
 
@@ -1,14 +1,17 @@
-import { format } from 'date-fns';
 import type { BujoGeneratorContext, PageRef } from './types';
-import { drawTopNavigation, drawPageTitle, drawPageBackground, drawDarkModeBackground, getNavLabels } from './page-utils';
-import { formatYearMonth, getWeekNumber } from './navigation';
+import { drawDatedNavigation, drawPageTitle, drawPageBackground, drawDarkModeBackground } from './page-utils';
+import { drawSideTabs } from './side-tabs';
+import { formatDateKey, formatYearMonth, getNavItems } from './navigation';
+import { formatWeekKey, getPlannerWeekNumber } from '../weeks';
+import { getSectionColors } from '../../../themes';
 
 export function generateDailyLog(
   ctx: BujoGeneratorContext,
   date: Date
 ): PageRef {
-  const { pdfDoc, font, fontBold, dims, density, dailyPageStyle, dotSpacing, nav, colors } = ctx;
+  const { pdfDoc, fontHeading, dims, density, dailyPageStyle, dotSpacing, nav, weeks, i18n } = ctx;
   const { WIDTH, HEIGHT, padding } = dims;
+  const colors = getSectionColors(ctx.colors, date.getMonth());
 
   const page = pdfDoc.addPage([WIDTH, HEIGHT]);
   const pageIndex = pdfDoc.getPageCount() - 1;
@@ -16,25 +19,31 @@ export function generateDailyLog(
   // Draw dark mode background if needed
   drawDarkModeBackground(page, dims, colors);
 
+  const yearMonth = formatYearMonth(date);
+  const weekKey = formatWeekKey(date, weeks);
+  const ref: PageRef = {
+    label: i18n.formatDate(date, i18n.strings.dates.dayLabel),
+    pageIndex,
+    type: 'daily',
+    date,
+    monthIndex: date.getMonth(),
+    yearMonth,
+    weekIndex: getPlannerWeekNumber(date, weeks),
+    weekKey,
+  };
+
   // Top navigation with context-aware items
-  const navLabels = getNavLabels('daily', nav);
-  const navY = drawTopNavigation(page, font, dims, colors, navLabels);
+  const navItems = getNavItems('daily', nav, i18n, { yearMonth, weekKey, date: formatDateKey(date) });
+  const navY = drawDatedNavigation(page, ctx, navItems, ref);
+  drawSideTabs(page, ctx, yearMonth);
 
-  // Date title with full day name and month (e.g., "Monday January 5th")
-  const dateStr = format(date, 'EEEE MMMM do');
-  const contentStartY = drawPageTitle(page, dateStr, fontBold, dims, colors, navY, 10);
+  // Date title with full day name and month (e.g., "Monday January 5th"), in the month's accent
+  const dateStr = i18n.formatDate(date, i18n.strings.dates.dailyTitle);
+  const contentStartY = drawPageTitle(page, dateStr, fontHeading, dims, colors, navY, 10, colors.accent);
 
   // Content area with background - use bottom padding
   const contentEndY = padding.bottom;
   drawPageBackground(page, dailyPageStyle, contentStartY, contentEndY, dims, colors, density.lineHeight, dotSpacing);
 
-  return {
-    label: format(date, 'EEE, MMM d'),
-    pageIndex,
-    type: 'daily',
-    date,
-    monthIndex: date.getMonth(),
-    yearMonth: formatYearMonth(date),
-    weekIndex: getWeekNumber(date),
-  };
+  return ref;
 }
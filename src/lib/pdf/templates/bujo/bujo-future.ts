@@ -1,14 +1,17 @@
 import { rgb } from 'pdf-lib';
-import { format, addMonths } from 'date-fns';
+import { addMonths } from 'date-fns';
 import type { BujoGeneratorContext, PageRef } from './types';
-import { drawTopNavigation, drawPageTitle, drawDarkModeBackground, getNavLabels } from './page-utils';
+import { drawNavigation, drawPageTitle, drawDarkModeBackground } from './page-utils';
+import { getNavItems } from './navigation';
+import { layoutX, textX } from '../../direction';
 
 export function generateFutureLog(
   ctx: BujoGeneratorContext,
   startDate: Date,
   months: 6 | 12
 ): PageRef[] {
-  const { pdfDoc, font, fontBold, dims, density, nav, colors } = ctx;
+  const { pdfDoc, font, fontBold, fontHeading, dims, density, nav, colors, links, i18n } = ctx;
+  const { strings } = i18n;
   const { WIDTH, HEIGHT, padding } = dims;
 
   const pageRefs: PageRef[] = [];
@@ -19,14 +22,18 @@ export function generateFutureLog(
   const minMonthHeight = Math.round(70 * density.spacing);
   const availableHeight = HEIGHT - padding.top - padding.bottom - navHeight - headerHeight;
 
-  // Calculate optimal months per page (at least 2, at most 4)
-  let monthsPerPage = Math.max(2, Math.floor(availableHeight / minMonthHeight));
-  monthsPerPage = Math.min(monthsPerPage, 4);
+  // Calculate optimal months per column (at least 2, at most 4); landscape pages get two columns
+  let monthsPerColumn = Math.max(2, Math.floor(availableHeight / minMonthHeight));
+  monthsPerColumn = Math.min(monthsPerColumn, 4);
+  const columns = dims.landscape ? 2 : 1;
+  const columnGap = 12;
+  const columnWidth = (WIDTH - padding.left - padding.right - columnGap * (columns - 1)) / columns;
+  const monthsPerPage = monthsPerColumn * columns;
 
   const numPages = Math.ceil(months / monthsPerPage);
 
   // Get nav labels for future log pages
-  const navLabels = getNavLabels('future', nav);
+  const navItems = getNavItems('future', nav, i18n);
 
   // Pre-compute colors
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
@@ -41,26 +48,30 @@ export function generateFutureLog(
     drawDarkModeBackground(page, dims, colors);
 
     // Top navigation
-    const navY = drawTopNavigation(page, font, dims, colors, navLabels);
+    const navY = drawNavigation(page, font, dims, colors, navItems, links);
 
     // Title
-    const pageTitle = pageNum === 0 ? 'Future Log' : `Future Log (${pageNum + 1})`;
-    const contentTop = drawPageTitle(page, pageTitle, fontBold, dims, colors, navY, 11);
+    const pageTitle = pageNum === 0 ? strings.futureLog : `${strings.futureLog} (${pageNum + 1})`;
+    const contentTop = drawPageTitle(page, pageTitle, fontHeading, dims, colors, navY, 11);
 
     // Determine how many months on this page
     const startMonth = pageNum * monthsPerPage;
     const monthsOnThisPage = Math.min(monthsPerPage, months - startMonth);
-    const actualMonthHeight = (contentTop - padding.bottom) / monthsOnThisPage;
+    const rowsOnThisPage = Math.min(monthsPerColumn, monthsOnThisPage);
+    const actualMonthHeight = (contentTop - padding.bottom) / rowsOnThisPage;
 
-    // Draw month sections
+    // Draw month sections, filling each column top to bottom
     for (let i = 0; i < monthsOnThisPage; i++) {
       const monthIndex = startMonth + i;
       const monthDate = addMonths(startDate, monthIndex);
-      const monthY = contentTop - i * actualMonthHeight;
+      const monthY = contentTop - (i % rowsOnThisPage) * actualMonthHeight;
+      const left = padding.left + Math.floor(i / rowsOnThisPage) * (columnWidth + columnGap);
+      const right = left + columnWidth;
 
       // Month header
-      page.drawText(format(monthDate, 'MMMM yyyy'), {
-        x: padding.left,
+      const monthTitle = i18n.formatDate(monthDate, strings.dates.monthYear);
+      page.drawText(monthTitle, {
+        x: textX(dims, left, monthTitle, fontBold, density.fontSize),
         y: monthY - 2,
         size: density.fontSize,
         font: fontBold,
@@ -69,8 +80,8 @@ export function generateFutureLog(
 
       // Separator line under month name
       page.drawLine({
-        start: { x: padding.left, y: monthY - 12 },
-        end: { x: WIDTH - padding.right, y: monthY - 12 },
+        start: { x: layoutX(dims, left), y: monthY - 12 },
+        end: { x: layoutX(dims, right), y: monthY - 12 },
         thickness: 0.5,
         color: lineColor,
       });
@@ -85,8 +96,8 @@ export function generateFutureLog(
         if (lineY < monthY - actualMonthHeight + 10) break;
 
         page.drawLine({
-          start: { x: padding.left, y: lineY },
-          end: { x: WIDTH - padding.right, y: lineY },
+          start: { x: layoutX(dims, left), y: lineY },
+          end: { x: layoutX(dims, right), y: lineY },
           thickness: 0.25,
           color: lineFaintColor,
         });
@@ -94,7 +105,7 @@ export function generateFutureLog(
     }
 
     pageRefs.push({
-      label: pageNum === 0 ? 'Future Log' : `Future Log (${pageNum + 1})`,
+      label: pageTitle,
       pageIndex,
       type: 'future',
     });
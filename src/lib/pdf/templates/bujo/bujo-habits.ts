@@ -0,0 +1,218 @@
+import { degrees, rgb } from 'pdf-lib';
+import { eachDayOfInterval, endOfMonth, getDay, startOfMonth } from 'date-fns';
+import type { BujoGeneratorContext, PageRef } from './types';
+import { drawDatedNavigation, drawPageTitle, drawDarkModeBackground, fitText } from './page-utils';
+import { drawSideTabs } from './side-tabs';
+import { formatDateKey, formatYearMonth, getNavItems } from './navigation';
+import { linkTarget, recordLink } from '../../link-recorder';
+import { layoutRect, layoutX, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
+
+const LABEL_FONT_SIZE = 7;
+const DAY_FONT_SIZE = 5;
+const MIN_DAY_WIDTH = 9;     // Narrower than this, days run down the page instead of across
+const MIN_CELL_SIZE = 12;    // Room to tick a cell with the pen
+const MAX_LABEL_WIDTH = 100; // Habit name column when days run across
+const DAY_LABEL_WIDTH = 24;  // Day number and weekday column when days run down
+const MAX_HEADER_HEIGHT = 60; // Rotated habit names when days run down
+
+/**
+ * One page of a month's habit tracker: a grid of habits against every day of
+ * the month, with weekends shaded. Days run across the page when their columns
+ * are wide enough to tick, and down it otherwise (narrow portrait pages), with
+ * the habits as columns. Only as many habits as leave cells big enough to tick
+ * are drawn; the page's ref comes back with how many that was.
+ */
+function drawHabitPage(
+  ctx: BujoGeneratorContext,
+  monthDate: Date,
+  habits: string[],
+  part: number
+): { ref: PageRef; drawn: number } {
+  const { pdfDoc, font, fontBold, fontHeading, dims, density, nav, links, i18n } = ctx;
+  const colors = getSectionColors(ctx.colors, monthDate.getMonth());
+  const { strings } = i18n;
+  const { WIDTH, HEIGHT, padding } = dims;
+
+  const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+  const pageIndex = pdfDoc.getPageCount() - 1;
+  drawDarkModeBackground(page, dims, colors);
+
+  const yearMonth = formatYearMonth(monthDate);
+  const monthName = i18n.formatDate(monthDate, strings.dates.month);
+  const ref: PageRef = {
+    label: part === 1 ? `${monthName} (${strings.habits})` : `${monthName} (${strings.habits} ${part})`,
+    pageIndex,
+    type: 'habits',
+    date: monthDate,
+    monthIndex: monthDate.getMonth(),
+    yearMonth,
+  };
+
+  const navItems = getNavItems('habits', nav, i18n, { yearMonth });
+  const navY = drawDatedNavigation(page, ctx, navItems, ref);
+  drawSideTabs(page, ctx, yearMonth);
+  const title = `${monthName} - ${strings.habitTracker}`;
+  const contentTop = drawPageTitle(page, part === 1 ? title : `${title} (${part})`, fontHeading, dims, colors, navY, 11);
+
+  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const accentColor = rgb(colors.accent.r, colors.accent.g, colors.accent.b);
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+  const lineFaintColor = rgb(colors.lineFaint.r, colors.lineFaint.g, colors.lineFaint.b);
+
+  const days = eachDayOfInterval({ start: startOfMonth(monthDate), end: endOfMonth(monthDate) });
+  const isWeekend = (day: Date) => getDay(day) === 0 || getDay(day) === 6;
+  const gridLeft = padding.left;
+  const gridWidth = WIDTH - padding.left - padding.right;
+  const gridBottom = padding.bottom;
+  const cellSize = MIN_CELL_SIZE * density.spacing;
+
+  // Draw a grid cell box in logical (left-to-right) coordinates
+  const fillCell = (x: number, y: number, width: number, height: number) =>
+    page.drawRectangle({ ...layoutRect(dims, { x, y, width, height }), color: lineFaintColor });
+  const hLine = (y: number, from: number, to: number, color = lineFaintColor) =>
+    page.drawLine({ start: { x: layoutX(dims, from), y }, end: { x: layoutX(dims, to), y }, thickness: 0.25, color });
+  const vLine = (x: number, top: number, bottom: number) =>
+    page.drawLine({ start: { x: layoutX(dims, x), y: top }, end: { x: layoutX(dims, x), y: bottom }, thickness: 0.25, color: lineFaintColor });
+
+  const labelWidth = Math.min(MAX_LABEL_WIDTH, gridWidth * 0.3);
+  const dayWidth = (gridWidth - labelWidth) / days.length;
+  let drawn: number;
+
+  if (dayWidth >= MIN_DAY_WIDTH) {
+    // Days across, habits down
+    const headerHeight = DAY_FONT_SIZE * 2 + 6;
+    const gridTop = contentTop - headerHeight;
+    const rows = Math.max(1, Math.floor((gridTop - gridBottom) / cellSize));
+    drawn = Math.min(habits.length, rows);
+    const rowHeight = (gridTop - gridBottom) / rows;
+    const daysLeft = gridLeft + labelWidth;
+
+    days.forEach((day, i) => {
+      const x = daysLeft + i * dayWidth;
+      if (isWeekend(day)) fillCell(x, gridBottom, dayWidth, gridTop - gridBottom);
+
+      const weekday = i18n.weekdayName(getDay(day), 'narrow');
+      const dayNumber = String(day.getDate());
+      const centered = (text: string, size: number) =>
+        textX(dims, x + (dayWidth - font.widthOfTextAtSize(text, size)) / 2, text, font, size);
+      page.drawText(weekday, {
+        x: centered(weekday, DAY_FONT_SIZE),
+        y: gridTop + DAY_FONT_SIZE + 4,
+        size: DAY_FONT_SIZE,
+        font,
+        color: isWeekend(day) ? mutedColor : accentColor,
+      });
+      page.drawText(dayNumber, {
+        x: centered(dayNumber, DAY_FONT_SIZE),
+        y: gridTop + 2,
+        size: DAY_FONT_SIZE,
+        font,
+        color: isWeekend(day) ? mutedColor : textColor,
+      });
+      recordLink(links, page, layoutRect(dims, { x, y: gridTop, width: dayWidth, height: headerHeight }),
+        linkTarget('daily', formatDateKey(day)));
+    });
+
+    for (let row = 0; row < rows; row++) {
+      const y = gridTop - (row + 1) * rowHeight;
+      const habit = row < drawn ? habits[row] : undefined;
+      if (habit) {
+        const label = fitText(habit, fontBold, LABEL_FONT_SIZE, labelWidth - 4);
+        page.drawText(label, {
+          x: textX(dims, gridLeft, label, fontBold, LABEL_FONT_SIZE),
+          y: y + (rowHeight - LABEL_FONT_SIZE) / 2 + 1,
+          size: LABEL_FONT_SIZE,
+          font: fontBold,
+          color: textColor,
+        });
+      }
+      hLine(y, gridLeft, gridLeft + gridWidth);
+    }
+
+    hLine(gridTop, gridLeft, gridLeft + gridWidth, lineColor);
+    for (let i = 0; i <= days.length; i++) vLine(daysLeft + i * dayWidth, gridTop, gridBottom);
+  } else {
+    // Days down, habits across with their names turned to fit
+    const headerHeight = Math.min(MAX_HEADER_HEIGHT, (contentTop - gridBottom) * 0.2);
+    const gridTop = contentTop - headerHeight;
+    const columnsLeft = gridLeft + DAY_LABEL_WIDTH;
+    const columnsWidth = gridWidth - DAY_LABEL_WIDTH;
+    // Named habits may narrow the columns down to the smallest cell, blank ones are wider
+    drawn = Math.min(habits.length, Math.max(1, Math.floor(columnsWidth / cellSize)));
+    const columns = Math.max(drawn, Math.floor(columnsWidth / (cellSize * 1.5)));
+    const columnWidth = columnsWidth / columns;
+    const rowHeight = (gridTop - gridBottom) / days.length;
+
+    days.forEach((day, i) => {
+      const y = gridTop - (i + 1) * rowHeight;
+      if (isWeekend(day)) fillCell(gridLeft, y, gridWidth, rowHeight);
+
+      const textY = y + (rowHeight - DAY_FONT_SIZE) / 2;
+      const dayNumber = String(day.getDate());
+      const weekday = i18n.weekdayName(getDay(day), 'narrow');
+      page.drawText(dayNumber, {
+        x: textX(dims, gridLeft, dayNumber, font, LABEL_FONT_SIZE - 1),
+        y: textY,
+        size: LABEL_FONT_SIZE - 1,
+        font,
+        color: isWeekend(day) ? mutedColor : textColor,
+      });
+      page.drawText(weekday, {
+        x: textX(dims, gridLeft + 12, weekday, font, LABEL_FONT_SIZE - 1),
+        y: textY,
+        size: LABEL_FONT_SIZE - 1,
+        font,
+        color: isWeekend(day) ? mutedColor : accentColor,
+      });
+      recordLink(links, page, layoutRect(dims, { x: gridLeft, y, width: DAY_LABEL_WIDTH, height: rowHeight }),
+        linkTarget('daily', formatDateKey(day)));
+      hLine(y, gridLeft, gridLeft + gridWidth);
+    });
+
+    // Names read upwards from the bottom of the header
+    const capHeight = fontBold.heightAtSize(LABEL_FONT_SIZE, { descender: false });
+    for (let column = 0; column < columns; column++) {
+      const x = columnsLeft + column * columnWidth;
+      const habit = column < drawn ? habits[column] : undefined;
+      if (habit) {
+        const label = fitText(habit, fontBold, LABEL_FONT_SIZE, headerHeight - 4);
+        page.drawText(label, {
+          x: layoutX(dims, x, columnWidth) + (columnWidth + capHeight) / 2,
+          y: gridTop + 3,
+          size: LABEL_FONT_SIZE,
+          font: fontBold,
+          color: textColor,
+          rotate: degrees(90),
+        });
+      }
+      vLine(x, gridTop + headerHeight, gridBottom);
+    }
+
+    vLine(gridLeft + gridWidth, gridTop + headerHeight, gridBottom);
+    hLine(gridTop, gridLeft, gridLeft + gridWidth, lineColor);
+  }
+
+  return { ref, drawn };
+}
+
+/**
+ * Habit tracker for one month, with a row (or column) for each habit and blank
+ * ones after them to write in by hand. Each day's label links to its daily
+ * page. Habits that don't fit run on over further pages for the month.
+ */
+export function generateHabitTracker(
+  ctx: BujoGeneratorContext,
+  monthDate: Date,
+  habits: string[]
+): PageRef[] {
+  const pageRefs: PageRef[] = [];
+  let start = 0;
+  do {
+    const { ref, drawn } = drawHabitPage(ctx, monthDate, habits.slice(start), pageRefs.length + 1);
+    pageRefs.push(ref);
+    start += drawn;
+  } while (start < habits.length);
+  return pageRefs;
+}
@@ -1,21 +1,38 @@
 import { rgb } from 'pdf-lib';
 import type { PDFPage } from 'pdf-lib';
 import type { BujoGeneratorContext, PageRef } from './types';
-import type { ColorScheme } from '../../../../types/planner';
-import { drawTopNavigation, drawPageTitle, drawDarkModeBackground, getNavLabels } from './page-utils';
-
-const BULLET_KEY = [
-  { symbol: 'dot', label: 'Task', description: 'Something to be done' },
-  { symbol: 'x', label: 'Complete', description: 'Accomplished task' },
-  { symbol: '>', label: 'Migrated', description: 'Moved to future log' },
-  { symbol: '<', label: 'Scheduled', description: 'Moved to specific date' },
-  { symbol: 'circle', label: 'Event', description: 'Date-related entry' },
-  { symbol: '-', label: 'Note', description: 'Facts, ideas, thoughts' },
-  { symbol: '*', label: 'Priority', description: 'Important signifier' },
-  { symbol: '!', label: 'Inspiration', description: 'Great ideas to revisit' },
+import type { BulletKeyEntry, BulletSymbol, ColorScheme } from '../../../../types/planner';
+import type { PlannerStrings } from '../../../i18n';
+import { drawNavigation, drawPageTitle, drawDarkModeBackground, fitText } from './page-utils';
+import { getNavItems } from './navigation';
+import { layoutX, textX } from '../../direction';
+
+// Label and description come from PlannerStrings.bullets[id]
+const BULLET_KEY: { symbol: BulletSymbol; id: keyof PlannerStrings['bullets'] }[] = [
+  { symbol: 'dot', id: 'task' },
+  { symbol: 'x', id: 'complete' },
+  { symbol: '>', id: 'migrated' },
+  { symbol: '<', id: 'scheduled' },
+  { symbol: 'circle', id: 'event' },
+  { symbol: '-', id: 'note' },
+  { symbol: '*', id: 'priority' },
+  { symbol: '!', id: 'inspiration' },
 ];
 
-function drawBulletSymbol(page: PDFPage, symbol: string, x: number, y: number, size: number, colors: ColorScheme) {
+// Room for an entry's label and description; longer keys continue on another page
+const MIN_ROW_HEIGHT = 22;
+const SYMBOL_COLUMN = 20; // Symbols sit left of the labels
+
+/**
+ * The entries on the key page: the configured ones, or the standard eight
+ * Carroll signifiers in the planner's language.
+ */
+export function getBulletKeyEntries(entries: BulletKeyEntry[] | undefined, strings: PlannerStrings): BulletKeyEntry[] {
+  if (entries && entries.length > 0) return entries;
+  return BULLET_KEY.map(({ symbol, id }) => ({ symbol, ...strings.bullets[id] }));
+}
+
+function drawBulletSymbol(page: PDFPage, symbol: BulletSymbol, x: number, y: number, size: number, colors: ColorScheme) {
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
   const bgColor = rgb(colors.background.r, colors.background.g, colors.background.b);
 
@@ -52,83 +69,145 @@ function drawBulletSymbol(page: PDFPage, symbol: string, x: number, y: number, s
         color: textColor,
       });
       return true;
+    case 'triangle': {
+      const corners = [{ x, y }, { x: x + size, y }, { x: x + size / 2, y: y + size }];
+      corners.forEach((start, i) => {
+        page.drawLine({ start, end: corners[(i + 1) % corners.length], thickness: 1, color: textColor });
+      });
+      return true;
+    }
+    case 'square':
+      page.drawRectangle({
+        x,
+        y,
+        width: size,
+        height: size,
+        borderColor: textColor,
+        borderWidth: 1,
+        color: bgColor,
+      });
+      return true;
+    case 'strike':
+      // A task dot, struck through
+      page.drawCircle({
+        x: x + size / 2,
+        y: y + size / 2,
+        size: size / 2,
+        color: textColor,
+      });
+      page.drawLine({
+        start: { x: x - 2, y: y + size / 2 },
+        end: { x: x + size + 2, y: y + size / 2 },
+        thickness: 1,
+        color: textColor,
+      });
+      return true;
+    case 'slash':
+      page.drawLine({
+        start: { x, y },
+        end: { x: x + size, y: y + size },
+        thickness: 1.5,
+        color: textColor,
+      });
+      return true;
     default:
       return false;
   }
 }
 
-export function generateKeyPage(ctx: BujoGeneratorContext): PageRef {
-  const { pdfDoc, font, fontBold, dims, density, nav, colors } = ctx;
+/**
+ * Key pages listing each signifier with its label and description. Entries
+ * share a page evenly; when there are too many to fit, they run on over
+ * further key pages.
+ */
+export function generateKeyPages(ctx: BujoGeneratorContext, entries: BulletKeyEntry[]): PageRef[] {
+  const { pdfDoc, font, fontBold, fontHeading, dims, density, nav, colors, links, i18n } = ctx;
+  const { strings } = i18n;
   const { WIDTH, HEIGHT, padding } = dims;
 
-  const page = pdfDoc.addPage([WIDTH, HEIGHT]);
-  const pageIndex = pdfDoc.getPageCount() - 1;
-
-  // Draw dark mode background if needed
-  drawDarkModeBackground(page, dims, colors);
-
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
   const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const navItems = getNavItems('key', nav, i18n);
+  const textWidth = WIDTH - padding.left - padding.right - SYMBOL_COLUMN;
+  const pageRefs: PageRef[] = [];
+
+  let start = 0;
+  while (start < entries.length) {
+    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+    const pageIndex = pdfDoc.getPageCount() - 1;
+
+    // Draw dark mode background if needed
+    drawDarkModeBackground(page, dims, colors);
+
+    // Top navigation with context-aware items
+    const navY = drawNavigation(page, font, dims, colors, navItems, links);
+
+    // Title
+    const title = pageRefs.length === 0 ? strings.key : `${strings.key} (${pageRefs.length + 1})`;
+    const contentTop = drawPageTitle(page, title, fontHeading, dims, colors, navY, 11);
+
+    // Subtitle
+    page.drawText(strings.rapidLoggingSignifiers, {
+      x: textX(dims, padding.left, strings.rapidLoggingSignifiers, font, 7),
+      y: contentTop + 2,
+      size: 7,
+      font,
+      color: mutedColor,
+    });
 
-  // Top navigation with context-aware items
-  const navLabels = getNavLabels('key', nav);
-  const navY = drawTopNavigation(page, font, dims, colors, navLabels);
-
-  // Title
-  const contentTop = drawPageTitle(page, 'Key', fontBold, dims, colors, navY, 11);
-
-  // Subtitle
-  page.drawText('Rapid Logging Signifiers', {
-    x: padding.left,
-    y: contentTop + 2,
-    size: 7,
-    font,
-    color: mutedColor,
-  });
-
-  // Key entries
-  const availableHeight = contentTop - padding.bottom - 10;
-  const lineHeight = Math.min(availableHeight / BULLET_KEY.length, density.lineHeight * 2);
-  let y = contentTop - 15;
-
-  for (const entry of BULLET_KEY) {
-    // Symbol
-    const symbolSize = 6;
-    const drewShape = drawBulletSymbol(page, entry.symbol, padding.left, y - 2, symbolSize, colors);
-    if (!drewShape) {
-      page.drawText(entry.symbol, {
-        x: padding.left,
+    // Key entries
+    const availableHeight = contentTop - padding.bottom - 10;
+    const perPage = Math.max(1, Math.floor(availableHeight / MIN_ROW_HEIGHT));
+    const pageEntries = entries.slice(start, start + perPage);
+    const lineHeight = Math.min(availableHeight / pageEntries.length, density.lineHeight * 2);
+    let y = contentTop - 15;
+
+    for (const { symbol, label, description } of pageEntries) {
+      // Symbol
+      const symbolSize = 6;
+      const drewShape = drawBulletSymbol(page, symbol, layoutX(dims, padding.left, symbolSize), y - 2, symbolSize, colors);
+      if (!drewShape) {
+        page.drawText(symbol, {
+          x: textX(dims, padding.left, symbol, fontBold, 10),
+          y: y,
+          size: 10,
+          font: fontBold,
+          color: textColor,
+        });
+      }
+
+      // Label
+      const labelText = fitText(label, fontBold, density.fontSize, textWidth);
+      page.drawText(labelText, {
+        x: textX(dims, padding.left + SYMBOL_COLUMN, labelText, fontBold, density.fontSize),
         y: y,
-        size: 10,
+        size: density.fontSize,
         font: fontBold,
         color: textColor,
       });
-    }
 
-    // Label
-    page.drawText(entry.label, {
-      x: padding.left + 20,
-      y: y,
-      size: density.fontSize,
-      font: fontBold,
-      color: textColor,
-    });
+      // Description
+      if (description) {
+        const descriptionText = fitText(description, font, density.fontSize - 1, textWidth);
+        page.drawText(descriptionText, {
+          x: textX(dims, padding.left + SYMBOL_COLUMN, descriptionText, font, density.fontSize - 1),
+          y: y - 10,
+          size: density.fontSize - 1,
+          font,
+          color: mutedColor,
+        });
+      }
+
+      y -= lineHeight;
+    }
 
-    // Description
-    page.drawText(entry.description, {
-      x: padding.left + 20,
-      y: y - 10,
-      size: density.fontSize - 1,
-      font,
-      color: mutedColor,
+    pageRefs.push({
+      label: title,
+      pageIndex,
+      type: 'key',
     });
-
-    y -= lineHeight;
+    start += pageEntries.length;
   }
 
-  return {
-    label: 'Key',
-    pageIndex,
-    type: 'key',
-  };
+  return pageRefs;
 }
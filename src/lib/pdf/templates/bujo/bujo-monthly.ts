@@ -1,16 +1,20 @@
 import { rgb } from 'pdf-lib';
-import { format, getDaysInMonth, getDay } from 'date-fns';
+import { getDaysInMonth, getDay } from 'date-fns';
 import type { BujoGeneratorContext, PageRef } from './types';
-import { drawTopNavigation, drawPageTitle, drawPageBackground, drawDarkModeBackground, getNavLabels } from './page-utils';
-import { formatYearMonth } from './navigation';
-
-const DAY_ABBREVS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+import { BREADCRUMB_HEIGHT, drawDatedNavigation, drawPageTitle, drawPageBackground, drawDarkModeBackground } from './page-utils';
+import { drawSideTabs } from './side-tabs';
+import { formatDateKey, formatYearMonth, getNavItems } from './navigation';
+import { linkTarget, recordLink } from '../../link-recorder';
+import { layoutRect, layoutX, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
 
 export function generateMonthlyLog(
   ctx: BujoGeneratorContext,
   monthDate: Date
 ): PageRef[] {
-  const { pdfDoc, font, fontBold, dims, density, dailyPageStyle, dotSpacing, nav, colors } = ctx;
+  const { pdfDoc, font, fontBold, fontHeading, dims, density, dailyPageStyle, dotSpacing, nav, links, i18n } = ctx;
+  const colors = getSectionColors(ctx.colors, monthDate.getMonth());
+  const { strings } = i18n;
   const { WIDTH, HEIGHT, padding } = dims;
 
   const pageRefs: PageRef[] = [];
@@ -18,9 +22,11 @@ export function generateMonthlyLog(
   const minLineHeight = Math.round(density.lineHeight * 0.7);
   const preferredLineHeight = density.lineHeight;
   const yearMonth = formatYearMonth(monthDate);
+  const monthName = i18n.formatDate(monthDate, strings.dates.month);
+  const monthTitle = i18n.formatDate(monthDate, strings.dates.monthYear);
 
   // Calculate available height (with top nav, no bottom nav)
-  const navHeight = 20; // Top nav space
+  const navHeight = 20 + (ctx.breadcrumbs === 'below-nav' ? BREADCRUMB_HEIGHT : 0); // Top nav space
   const headerHeight = 25;
   const availableHeight = HEIGHT - padding.top - padding.bottom - navHeight - headerHeight - 10;
 
@@ -32,7 +38,8 @@ export function generateMonthlyLog(
   const needsSplit = calendarPages > 1 || (daysInMonth * preferredLineHeight > availableHeight);
 
   // Get nav labels for monthly calendar
-  const calNavLabels = getNavLabels('monthly', nav);
+  const calNavItems = getNavItems('monthly', nav, i18n, { yearMonth });
+  const monthRef = { date: monthDate, yearMonth };
 
   // Pre-compute colors
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
@@ -42,7 +49,8 @@ export function generateMonthlyLog(
   const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
   const dotColor = rgb(colors.dot.r, colors.dot.g, colors.dot.b);
 
-  if (needsSplit) {
+  // Landscape has room for the calendar and tasks side by side, with days in columns
+  if (needsSplit && !dims.landscape) {
     // Generate calendar pages (may be 1 or more)
     let dayIndex = 1;
     let calendarPageNum = 0;
@@ -55,12 +63,13 @@ export function generateMonthlyLog(
       drawDarkModeBackground(page, dims, colors);
 
       // Top navigation
-      const navY = drawTopNavigation(page, font, dims, colors, calNavLabels);
+      const navY = drawDatedNavigation(page, ctx, calNavItems, { ...monthRef, type: 'monthly' });
+      drawSideTabs(page, ctx, yearMonth);
 
       // Title
       const suffix = calendarPages > 1 ? ` (${calendarPageNum + 1}/${calendarPages})` : '';
-      const title = format(monthDate, 'MMMM yyyy') + suffix;
-      const contentTop = drawPageTitle(page, title, fontBold, dims, colors, navY, 11);
+      const title = monthTitle + suffix;
+      const contentTop = drawPageTitle(page, title, fontHeading, dims, colors, navY, 11);
 
       // Calculate days for this page
       const daysOnThisPage = Math.min(daysPerPage, daysInMonth - dayIndex + 1);
@@ -72,27 +81,37 @@ export function generateMonthlyLog(
         const dayOfWeek = getDay(date);
         const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
 
-        page.drawText(dayIndex.toString().padStart(2, ' '), {
-          x: padding.left,
+        const dayText = dayIndex.toString().padStart(2, ' ');
+        const weekday = i18n.weekdayName(dayOfWeek, 'narrow');
+        page.drawText(dayText, {
+          x: textX(dims, padding.left, dayText, font, density.fontSize),
           y,
           size: density.fontSize,
           font,
           color: isWeekend ? mutedColor : textColor,
         });
 
-        page.drawText(DAY_ABBREVS[dayOfWeek], {
-          x: padding.left + 18,
+        page.drawText(weekday, {
+          x: textX(dims, padding.left + 18, weekday, font, density.fontSize),
           y,
           size: density.fontSize,
           font,
           color: isWeekend ? mutedColor : accentColor,
         });
 
+        // Link the date to its daily page (resolved once all pages exist)
+        recordLink(links, page, layoutRect(dims, {
+          x: padding.left - 2,
+          y: y - 2,
+          width: 28, // Covers date number and day letter
+          height: density.fontSize + 4,
+        }), linkTarget('daily', formatDateKey(date)));
+
         // Draw separator line at top of this row (just above the text cap height)
         const separatorY = y + density.fontSize;
         page.drawLine({
-          start: { x: padding.left + 30, y: separatorY },
-          end: { x: WIDTH - padding.right, y: separatorY },
+          start: { x: layoutX(dims, padding.left + 30), y: separatorY },
+          end: { x: layoutX(dims, WIDTH - padding.right), y: separatorY },
           thickness: 0.25,
           color: lineFaintColor,
         });
@@ -101,8 +120,8 @@ export function generateMonthlyLog(
       }
 
       const label = calendarPages > 1
-        ? `${format(monthDate, 'MMMM')} Cal ${calendarPageNum + 1}`
-        : `${format(monthDate, 'MMMM')} (Calendar)`;
+        ? `${monthName} ${strings.pageLabels.calendar} ${calendarPageNum + 1}`
+        : `${monthName} (${strings.calendar})`;
 
       pageRefs.push({
         label,
@@ -124,16 +143,17 @@ export function generateMonthlyLog(
     drawDarkModeBackground(taskPage, dims, colors);
 
     // Get nav labels for monthly-tasks
-    const taskNavLabels = getNavLabels('monthly-tasks', nav);
-    const taskNavY = drawTopNavigation(taskPage, font, dims, colors, taskNavLabels);
-    const taskTitle = format(monthDate, 'MMMM') + ' - Tasks';
-    const taskContentTop = drawPageTitle(taskPage, taskTitle, fontBold, dims, colors, taskNavY, 11);
+    const taskNavItems = getNavItems('monthly-tasks', nav, i18n, { yearMonth });
+    const taskNavY = drawDatedNavigation(taskPage, ctx, taskNavItems, { ...monthRef, type: 'monthly-tasks' });
+    drawSideTabs(taskPage, ctx, yearMonth);
+    const taskTitle = `${monthName} - ${strings.tasks}`;
+    const taskContentTop = drawPageTitle(taskPage, taskTitle, fontHeading, dims, colors, taskNavY, 11);
 
     // Draw background (dotted pattern like daily pages)
     drawPageBackground(taskPage, dailyPageStyle, taskContentTop, padding.bottom, dims, colors, density.lineHeight, dotSpacing);
 
     pageRefs.push({
-      label: format(monthDate, 'MMMM') + ' (Tasks)',
+      label: `${monthName} (${strings.tasks})`,
       pageIndex: taskPageIndex,
       type: 'monthly-tasks',
       date: monthDate,
@@ -142,6 +162,7 @@ export function generateMonthlyLog(
     });
   } else {
     // Single page: side-by-side layout (calendar on left, tasks on right)
+    // In landscape the days wrap into as many columns as it takes to fit them
     // This is a combined page - we'll register it as 'monthly' for the calendar
     // and also add a 'monthly-tasks' entry pointing to the same page
     const page = pdfDoc.addPage([WIDTH, HEIGHT]);
@@ -150,58 +171,73 @@ export function generateMonthlyLog(
     // Draw dark mode background if needed
     drawDarkModeBackground(page, dims, colors);
 
-    const navY = drawTopNavigation(page, font, dims, colors, calNavLabels);
-    const title = format(monthDate, 'MMMM yyyy');
-    const contentTop = drawPageTitle(page, title, fontBold, dims, colors, navY, 11);
+    const navY = drawDatedNavigation(page, ctx, calNavItems, { ...monthRef, type: 'monthly' });
+    drawSideTabs(page, ctx, yearMonth);
+    const title = monthTitle;
+    const contentTop = drawPageTitle(page, title, fontHeading, dims, colors, navY, 11);
 
-    const dividerX = padding.left + (WIDTH - padding.left - padding.right) * 0.4;
+    const rowsThatFit = Math.max(1, Math.floor((contentTop - padding.bottom - 10) / minLineHeight));
+    const columns = dims.landscape ? Math.ceil(daysInMonth / rowsThatFit) : 1;
+    const rowsPerColumn = Math.ceil(daysInMonth / columns);
+    const calendarShare = columns === 1 ? 0.4 : Math.min(0.6, 0.3 * columns);
+    const dividerX = padding.left + (WIDTH - padding.left - padding.right) * calendarShare;
+    const columnWidth = (dividerX - padding.left) / columns;
 
     page.drawLine({
-      start: { x: dividerX, y: contentTop },
-      end: { x: dividerX, y: padding.bottom },
+      start: { x: layoutX(dims, dividerX), y: contentTop },
+      end: { x: layoutX(dims, dividerX), y: padding.bottom },
       thickness: 0.5,
       color: lineColor,
     });
 
-    const lineHeight = Math.min(preferredLineHeight, (contentTop - padding.bottom - 10) / daysInMonth);
-    let y = contentTop;
+    const lineHeight = Math.min(preferredLineHeight, (contentTop - padding.bottom - 10) / rowsPerColumn);
 
     for (let day = 1; day <= daysInMonth; day++) {
+      const column = Math.floor((day - 1) / rowsPerColumn);
+      const columnX = padding.left + column * columnWidth;
+      const y = contentTop - ((day - 1) % rowsPerColumn) * lineHeight;
       const date = new Date(monthDate.getFullYear(), monthDate.getMonth(), day);
       const dayOfWeek = getDay(date);
       const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
 
-      page.drawText(day.toString().padStart(2, ' '), {
-        x: padding.left,
+      const dayText = day.toString().padStart(2, ' ');
+      const weekday = i18n.weekdayName(dayOfWeek, 'narrow');
+      page.drawText(dayText, {
+        x: textX(dims, columnX, dayText, font, density.fontSize),
         y,
         size: density.fontSize,
         font,
         color: isWeekend ? mutedColor : textColor,
       });
 
-      page.drawText(DAY_ABBREVS[dayOfWeek], {
-        x: padding.left + 18,
+      page.drawText(weekday, {
+        x: textX(dims, columnX + 18, weekday, font, density.fontSize),
         y,
         size: density.fontSize,
         font,
         color: isWeekend ? mutedColor : accentColor,
       });
 
+      recordLink(links, page, layoutRect(dims, {
+        x: columnX - 2,
+        y: y - 2,
+        width: 28,
+        height: density.fontSize + 4,
+      }), linkTarget('daily', formatDateKey(date)));
+
       // Draw separator line at top of this row (just above the text cap height)
       const separatorY = y + density.fontSize;
       page.drawLine({
-        start: { x: padding.left + 30, y: separatorY },
-        end: { x: dividerX - 5, y: separatorY },
+        start: { x: layoutX(dims, columnX + 30), y: separatorY },
+        end: { x: layoutX(dims, columnX + columnWidth - 5), y: separatorY },
         thickness: 0.25,
         color: lineFaintColor,
       });
-
-      y -= lineHeight;
     }
 
     // Tasks section header
-    page.drawText('Tasks', {
-      x: dividerX + 8,
+    page.drawText(strings.tasks, {
+      x: textX(dims, dividerX + 8, strings.tasks, fontBold, density.fontSize),
       y: contentTop,
       size: density.fontSize,
       font: fontBold,
@@ -214,7 +250,7 @@ export function generateMonthlyLog(
       for (let ty = taskStartY; ty >= padding.bottom; ty -= dotSpacing) {
         for (let tx = dividerX + 8; tx <= WIDTH - padding.right; tx += dotSpacing) {
           page.drawCircle({
-            x: tx,
+            x: layoutX(dims, tx),
             y: ty,
             size: 0.5,
             color: dotColor,
@@ -224,8 +260,8 @@ export function generateMonthlyLog(
     } else if (dailyPageStyle === 'lined') {
       for (let ty = taskStartY; ty >= padding.bottom; ty -= density.lineHeight) {
         page.drawLine({
-          start: { x: dividerX + 8, y: ty },
-          end: { x: WIDTH - padding.right, y: ty },
+          start: { x: layoutX(dims, dividerX + 8), y: ty },
+          end: { x: layoutX(dims, WIDTH - padding.right), y: ty },
           thickness: 0.25,
           color: lineColor,
         });
@@ -234,7 +270,7 @@ export function generateMonthlyLog(
 
     // Register as monthly calendar page
     pageRefs.push({
-      label: format(monthDate, 'MMMM'),
+      label: monthName,
       pageIndex,
       type: 'monthly',
       date: monthDate,
@@ -244,7 +280,7 @@ export function generateMonthlyLog(
 
     // Also register as monthly-tasks (points to same page for combined layout)
     pageRefs.push({
-      label: format(monthDate, 'MMMM') + ' (Tasks)',
+      label: `${monthName} (${strings.tasks})`,
       pageIndex,
       type: 'monthly-tasks',
       date: monthDate,
@@ -1,15 +1,36 @@
 import { rgb } from 'pdf-lib';
 import type { PDFPage, PDFFont, Color } from 'pdf-lib';
-import { format, endOfWeek } from 'date-fns';
+import { addDays } from 'date-fns';
+import type { ReviewSectionFill, WeeklyReviewSection } from '../../../../types/planner';
+import type { PlannerStrings } from '../../../i18n';
 import type { BujoGeneratorContext, PageRef } from './types';
-import { drawTopNavigation, drawPageTitle, drawDarkModeBackground, getNavLabels } from './page-utils';
-import { getWeekNumber, formatYearMonth } from './navigation';
+import { drawDatedNavigation, drawPageTitle, drawDarkModeBackground } from './page-utils';
+import { drawSideTabs } from './side-tabs';
+import { formatYearMonth, getNavItems } from './navigation';
+import { formatWeekKey, getPlannerWeekNumber } from '../weeks';
+import { layoutX, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
+import type { Dimensions } from './types';
+
+/**
+ * The sections a weekly review is split into: the configured ones, or the
+ * standard three (what went well, what to improve, next week's goals).
+ */
+export function getWeeklyReviewSections(sections: WeeklyReviewSection[] | undefined, strings: PlannerStrings): WeeklyReviewSection[] {
+  if (sections && sections.length > 0) return sections;
+  const { wentWell, toImprove, nextWeekGoals } = strings.weeklyReview;
+  return [wentWell, toImprove, nextWeekGoals].map((title) => ({ title, height: 1, fill: 'bullets' }));
+}
 
 export function generateWeeklyReview(
   ctx: BujoGeneratorContext,
-  weekStartDate: Date
+  weekStartDate: Date,
+  sections: WeeklyReviewSection[]
 ): PageRef {
-  const { pdfDoc, font, fontBold, dims, density, nav, colors } = ctx;
+  const { pdfDoc, font, fontBold, fontHeading, dims, density, nav, weeks, i18n, dotSpacing } = ctx;
+  // The review belongs to the month its week starts in
+  const colors = getSectionColors(ctx.colors, weekStartDate.getMonth());
+  const { strings } = i18n;
   const { WIDTH, HEIGHT, padding } = dims;
 
   const page = pdfDoc.addPage([WIDTH, HEIGHT]);
@@ -25,21 +46,35 @@ export function generateWeeklyReview(
   const lineFaintColor = rgb(colors.lineFaint.r, colors.lineFaint.g, colors.lineFaint.b);
   const dotColor = rgb(colors.dot.r, colors.dot.g, colors.dot.b);
 
-  const weekNum = getWeekNumber(weekStartDate);
-  const weekEnd = endOfWeek(weekStartDate, { weekStartsOn: 0 });
+  const weekNum = getPlannerWeekNumber(weekStartDate, weeks);
+  const weekKey = formatWeekKey(weekStartDate, weeks);
+  const weekEnd = addDays(weekStartDate, 6);
+
+  const yearMonth = formatYearMonth(weekStartDate);
+  const ref: PageRef = {
+    label: strings.week(weekNum),
+    pageIndex,
+    type: 'weekly',
+    date: weekStartDate,
+    weekIndex: weekNum,
+    weekKey,
+    monthIndex: weekStartDate.getMonth(),
+    yearMonth,
+  };
 
   // Top navigation with context-aware items
-  const navLabels = getNavLabels('weekly', nav);
-  const navY = drawTopNavigation(page, font, dims, colors, navLabels);
+  const navItems = getNavItems('weekly', nav, i18n, { yearMonth, weekKey });
+  const navY = drawDatedNavigation(page, ctx, navItems, ref);
+  drawSideTabs(page, ctx, yearMonth);
 
   // Title with date range
-  const title = `Week ${weekNum}`;
-  let contentTop = drawPageTitle(page, title, fontBold, dims, colors, navY, 11);
+  const title = strings.week(weekNum);
+  let contentTop = drawPageTitle(page, title, fontHeading, dims, colors, navY, 11);
 
   // Date range subtitle
-  const dateRange = `${format(weekStartDate, 'MMM d')} - ${format(weekEnd, 'MMM d')}`;
+  const dateRange = `${i18n.formatDate(weekStartDate, strings.dates.shortDate)} - ${i18n.formatDate(weekEnd, strings.dates.shortDate)}`;
   page.drawText(dateRange, {
-    x: padding.left,
+    x: textX(dims, padding.left, dateRange, font, 7),
     y: contentTop + 2,
     size: 7,
     font,
@@ -47,44 +82,42 @@ export function generateWeeklyReview(
   });
   contentTop -= 8;
 
-  // Calculate section heights
+  // Sections are stacked in portrait and side by side in landscape, sized by their relative heights
   const availableHeight = contentTop - padding.bottom;
-  const sectionHeight = availableHeight / 3;
+  const columnGap = 12;
+  const availableWidth = dims.landscape
+    ? WIDTH - padding.left - padding.right - columnGap * (sections.length - 1)
+    : WIDTH - padding.left - padding.right;
+  const totalHeight = sections.reduce((sum, section) => sum + section.height, 0);
   const lineHeight = density.lineHeight;
 
-  // Section 1: What Went Well
-  drawSection(page, 'What went well', contentTop, sectionHeight, padding.left, padding.right, WIDTH, font, fontBold, lineHeight, accentColor, lineColor, lineFaintColor, dotColor);
-
-  // Section 2: What to Improve
-  const section2Y = contentTop - sectionHeight;
-  drawSection(page, 'What to improve', section2Y, sectionHeight, padding.left, padding.right, WIDTH, font, fontBold, lineHeight, accentColor, lineColor, lineFaintColor, dotColor);
-
-  // Section 3: Goals for Next Week
-  const section3Y = section2Y - sectionHeight;
-  drawSection(page, 'Goals for next week', section3Y, sectionHeight, padding.left, padding.right, WIDTH, font, fontBold, lineHeight, accentColor, lineColor, lineFaintColor, dotColor);
+  let offset = 0;
+  sections.forEach((section) => {
+    const sectionHeight = dims.landscape ? availableHeight : (availableHeight * section.height) / totalHeight;
+    const sectionWidth = dims.landscape ? (availableWidth * section.height) / totalHeight : availableWidth;
+    const left = dims.landscape ? padding.left + offset : padding.left;
+    const topY = dims.landscape ? contentTop : contentTop - offset;
+    drawSection(page, section.title, section.fill, topY, sectionHeight, left, left + sectionWidth, dims, font, fontBold,
+      lineHeight, dotSpacing, accentColor, lineColor, lineFaintColor, dotColor);
+    offset += dims.landscape ? sectionWidth + columnGap : sectionHeight;
+  });
 
-  return {
-    label: `Week ${weekNum}`,
-    pageIndex,
-    type: 'weekly',
-    date: weekStartDate,
-    weekIndex: weekNum,
-    monthIndex: weekStartDate.getMonth(),
-    yearMonth: formatYearMonth(weekStartDate),
-  };
+  return ref;
 }
 
 function drawSection(
   page: PDFPage,
   title: string,
+  fill: ReviewSectionFill,
   topY: number,
   height: number,
-  leftMargin: number,
-  rightMargin: number,
-  width: number,
+  left: number,
+  right: number,
+  dims: Dimensions,
   _font: PDFFont,
   fontBold: PDFFont,
   lineHeight: number,
+  dotSpacing: number,
   accentColor: Color,
   lineColor: Color,
   lineFaintColor: Color,
@@ -92,7 +125,7 @@ function drawSection(
 ): void {
   // Section header
   page.drawText(title, {
-    x: leftMargin,
+    x: textX(dims, left, title, fontBold, 8),
     y: topY - 2,
     size: 8,
     font: fontBold,
@@ -101,31 +134,53 @@ function drawSection(
 
   // Section separator
   page.drawLine({
-    start: { x: leftMargin, y: topY - 10 },
-    end: { x: width - rightMargin, y: topY - 10 },
+    start: { x: layoutX(dims, left), y: topY - 10 },
+    end: { x: layoutX(dims, right), y: topY - 10 },
     thickness: 0.5,
     color: lineColor,
   });
 
-  // Bullet lines for notes
   const startY = topY - 20;
+  const bottomY = topY - height + 10;
+
+  if (fill === 'dots') {
+    for (let y = startY + 3; y >= bottomY; y -= dotSpacing) {
+      for (let x = left + 2; x <= right; x += dotSpacing) {
+        page.drawCircle({ x: layoutX(dims, x), y, size: 0.5, color: dotColor });
+      }
+    }
+    return;
+  }
+  if (fill === 'blank') return;
+
+  // One line per entry, marked with a bullet or a checkbox
   const numLines = Math.floor((height - 30) / lineHeight);
+  const lineLeft = fill === 'lines' ? left : left + 12;
 
   for (let i = 0; i < numLines; i++) {
     const lineY = startY - i * lineHeight;
 
-    // Bullet point
-    page.drawCircle({
-      x: leftMargin + 4,
-      y: lineY + 3,
-      size: 1.5,
-      color: dotColor,
-    });
+    if (fill === 'bullets') {
+      page.drawCircle({
+        x: layoutX(dims, left + 4),
+        y: lineY + 3,
+        size: 1.5,
+        color: dotColor,
+      });
+    } else if (fill === 'checkboxes') {
+      page.drawRectangle({
+        x: layoutX(dims, left + 1, 6),
+        y: lineY + 3,
+        width: 6,
+        height: 6,
+        borderColor: lineColor,
+        borderWidth: 0.5,
+      });
+    }
 
-    // Line
     page.drawLine({
-      start: { x: leftMargin + 12, y: lineY + 3 },
-      end: { x: width - rightMargin, y: lineY + 3 },
+      start: { x: layoutX(dims, lineLeft), y: lineY + 3 },
+      end: { x: layoutX(dims, right), y: lineY + 3 },
       thickness: 0.25,
       color: lineFaintColor,
     });
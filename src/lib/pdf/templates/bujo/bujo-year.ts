@@ -0,0 +1,259 @@
+import { rgb } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import { getDay, getDaysInMonth } from 'date-fns';
+import type { RGBColor } from '../../../../types/planner';
+import type { BujoGeneratorContext, PageRef } from './types';
+import { drawNavigation, drawPageTitle, drawDarkModeBackground, fitText } from './page-utils';
+import { formatDateKey, formatYearMonth, getNavItems } from './navigation';
+import { getWeekdayOrder } from '../weeks';
+import { linkTarget, recordLink } from '../../link-recorder';
+import { layoutRect, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
+
+const MIN_FONT_SIZE = 4;
+const MAX_FONT_SIZE = 8;
+const MONTH_GAP = 8;          // Between mini calendars
+const MONTH_COLUMNS = [2, 3, 4, 6]; // Ways to split 12 months into a grid
+const DAY_LABEL_WIDTH = 14;   // Day numbers beside the pixel grid
+const LEGEND_SWATCH = 8;
+const LEGEND_HEIGHT = 18;
+
+// Area of the page the overview is drawn in, in logical (left-to-right) coordinates
+interface Area {
+  left: number;
+  top: number;
+  width: number;
+  bottom: number;
+}
+
+function clampFontSize(size: number): number {
+  return Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, size));
+}
+
+// Mix color toward the page background, 0 (color) to 1 (background)
+function fade(color: RGBColor, background: RGBColor, amount: number) {
+  return rgb(
+    color.r + (background.r - color.r) * amount,
+    color.g + (background.g - color.g) * amount,
+    color.b + (background.b - color.b) * amount
+  );
+}
+
+/**
+ * Twelve mini month calendars in whichever grid gives the biggest day cells.
+ * Month names link to the monthly calendars and days to their daily pages.
+ */
+function drawMiniCalendars(page: PDFPage, ctx: BujoGeneratorContext, year: number, area: Area): void {
+  const { font, fontBold, dims, colors, links, i18n, weeks } = ctx;
+  const weekdays = getWeekdayOrder(weeks);
+  const height = area.top - area.bottom;
+
+  // A month is a name row, a weekday row and up to six weeks
+  const layouts = MONTH_COLUMNS.map((columns) => {
+    const rows = 12 / columns;
+    const monthWidth = (area.width - (columns - 1) * MONTH_GAP) / columns;
+    const monthHeight = (height - (rows - 1) * MONTH_GAP) / rows;
+    return { columns, monthWidth, monthHeight, cell: Math.min(monthWidth / 7, monthHeight / 8) };
+  });
+  const { columns, monthWidth, monthHeight, cell } = layouts.reduce((best, layout) => layout.cell > best.cell ? layout : best);
+
+  const cellWidth = monthWidth / 7;
+  const rowHeight = Math.min(monthHeight / 8, cellWidth * 1.2);
+  const fontSize = clampFontSize(cell * 0.45);
+  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+
+  for (let month = 0; month < 12; month++) {
+    const monthDate = new Date(year, month, 1);
+    const accent = getSectionColors(colors, month).accent;
+    const left = area.left + (month % columns) * (monthWidth + MONTH_GAP);
+    const top = area.top - Math.floor(month / columns) * (monthHeight + MONTH_GAP);
+
+    const monthName = i18n.formatDate(monthDate, i18n.strings.dates.month);
+    const nameSize = clampFontSize(rowHeight * 0.6);
+    page.drawText(monthName, {
+      x: textX(dims, left, monthName, fontBold, nameSize),
+      y: top - rowHeight + (rowHeight - nameSize) / 2,
+      size: nameSize,
+      font: fontBold,
+      color: rgb(accent.r, accent.g, accent.b),
+    });
+    recordLink(links, page, layoutRect(dims, { x: left, y: top - rowHeight, width: monthWidth, height: rowHeight }),
+      linkTarget('monthly', formatYearMonth(monthDate)));
+
+    const centered = (text: string, x: number) =>
+      textX(dims, x + (cellWidth - font.widthOfTextAtSize(text, fontSize)) / 2, text, font, fontSize);
+
+    weekdays.forEach((weekday, i) => {
+      const label = i18n.weekdayName(weekday, 'narrow');
+      page.drawText(label, {
+        x: centered(label, left + i * cellWidth),
+        y: top - 2 * rowHeight + (rowHeight - fontSize) / 2,
+        size: fontSize,
+        font,
+        color: mutedColor,
+      });
+    });
+
+    const firstColumn = weekdays.indexOf(getDay(monthDate));
+    for (let day = 1; day <= getDaysInMonth(monthDate); day++) {
+      const slot = firstColumn + day - 1;
+      const x = left + (slot % 7) * cellWidth;
+      const y = top - (Math.floor(slot / 7) + 3) * rowHeight;
+      const dayNumber = String(day);
+      page.drawText(dayNumber, {
+        x: centered(dayNumber, x),
+        y: y + (rowHeight - fontSize) / 2,
+        size: fontSize,
+        font,
+        color: textColor,
+      });
+      recordLink(links, page, layoutRect(dims, { x, y, width: cellWidth, height: rowHeight }),
+        linkTarget('daily', formatDateKey(new Date(year, month, day))));
+    }
+  }
+}
+
+/**
+ * A cell for every day of the year to shade in, with months as columns and
+ * days as rows (or the other way round on wide pages), above a legend of
+ * shades to shade them with. Each cell links to its daily page.
+ */
+function drawYearInPixels(page: PDFPage, ctx: BujoGeneratorContext, year: number, area: Area): void {
+  const { font, dims, colors, links, i18n } = ctx;
+  const { moods } = i18n.strings;
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+  const lineFaintColor = rgb(colors.lineFaint.r, colors.lineFaint.g, colors.lineFaint.b);
+  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+
+  // Legend along the bottom, from the accent color fading to the lightest shade
+  const legend = [moods.great, moods.good, moods.okay, moods.low, moods.bad];
+  const legendSize = clampFontSize(LEGEND_SWATCH * 0.8);
+  const slotWidth = area.width / legend.length;
+  legend.forEach((label, i) => {
+    const x = area.left + i * slotWidth;
+    page.drawRectangle({
+      ...layoutRect(dims, { x, y: area.bottom, width: LEGEND_SWATCH, height: LEGEND_SWATCH }),
+      color: fade(colors.accent, colors.background, i / legend.length),
+      borderColor: lineColor,
+      borderWidth: 0.25,
+    });
+    const text = fitText(label, font, legendSize, slotWidth - LEGEND_SWATCH - 6);
+    page.drawText(text, {
+      x: textX(dims, x + LEGEND_SWATCH + 3, text, font, legendSize),
+      y: area.bottom + (LEGEND_SWATCH - legendSize) / 2 + 1,
+      size: legendSize,
+      font,
+      color: textColor,
+    });
+  });
+
+  const gridBottom = area.bottom + LEGEND_HEIGHT;
+  const gridHeight = area.top - gridBottom;
+  const daysAcross = area.width > gridHeight;
+  const monthCount = 12;
+  const dayCount = 31;
+
+  // Month labels head the columns (or rows), day numbers the other side
+  const headerHeight = MAX_FONT_SIZE + 4;
+  const cellsLeft = area.left + DAY_LABEL_WIDTH;
+  const cellsTop = area.top - headerHeight;
+  const columns = daysAcross ? dayCount : monthCount;
+  const rows = daysAcross ? monthCount : dayCount;
+  const cellWidth = (area.width - DAY_LABEL_WIDTH) / columns;
+  const cellHeight = (cellsTop - gridBottom) / rows;
+  const fontSize = clampFontSize(Math.min(cellWidth, cellHeight) * 0.5);
+
+  const columnLabels = daysAcross
+    ? Array.from({ length: dayCount }, (_, i) => String(i + 1))
+    : Array.from({ length: monthCount }, (_, i) => i18n.formatDate(new Date(year, i, 1), i18n.strings.dates.shortMonth));
+  const rowLabels = daysAcross
+    ? Array.from({ length: monthCount }, (_, i) => i18n.formatDate(new Date(year, i, 1), i18n.strings.dates.shortMonth))
+    : Array.from({ length: dayCount }, (_, i) => String(i + 1));
+
+  columnLabels.forEach((label, i) => {
+    const text = fitText(label, font, fontSize, cellWidth);
+    page.drawText(text, {
+      x: textX(dims, cellsLeft + i * cellWidth + (cellWidth - font.widthOfTextAtSize(text, fontSize)) / 2, text, font, fontSize),
+      y: cellsTop + 3,
+      size: fontSize,
+      font,
+      color: daysAcross ? mutedColor : textColor,
+    });
+  });
+  rowLabels.forEach((label, i) => {
+    const text = fitText(label, font, fontSize, DAY_LABEL_WIDTH - 2);
+    page.drawText(text, {
+      x: textX(dims, area.left, text, font, fontSize),
+      y: cellsTop - (i + 1) * cellHeight + (cellHeight - fontSize) / 2,
+      size: fontSize,
+      font,
+      color: daysAcross ? textColor : mutedColor,
+    });
+  });
+
+  for (let month = 0; month < monthCount; month++) {
+    const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+    for (let day = 1; day <= dayCount; day++) {
+      const column = daysAcross ? day - 1 : month;
+      const row = daysAcross ? month : day - 1;
+      const rect = layoutRect(dims, {
+        x: cellsLeft + column * cellWidth,
+        y: cellsTop - (row + 1) * cellHeight,
+        width: cellWidth,
+        height: cellHeight,
+      });
+
+      // Days the month doesn't have are filled in
+      if (day > daysInMonth) {
+        page.drawRectangle({ ...rect, color: lineFaintColor, borderColor: lineColor, borderWidth: 0.25 });
+        continue;
+      }
+      page.drawRectangle({ ...rect, borderColor: lineColor, borderWidth: 0.25 });
+      recordLink(links, page, rect, linkTarget('daily', formatDateKey(new Date(year, month, day))));
+    }
+  }
+}
+
+/**
+ * Overview page for one year: twelve mini month calendars, or a year in pixels
+ * grid with a mood legend. Every day links to its daily page.
+ */
+export function generateYearOverview(
+  ctx: BujoGeneratorContext,
+  year: number,
+  style: 'calendar' | 'pixels'
+): PageRef {
+  const { pdfDoc, font, fontHeading, dims, nav, colors, links, i18n } = ctx;
+  const { strings } = i18n;
+  const { WIDTH, HEIGHT, padding } = dims;
+
+  const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+  const pageIndex = pdfDoc.getPageCount() - 1;
+  drawDarkModeBackground(page, dims, colors);
+
+  const navItems = getNavItems('year', nav, i18n, { yearMonth: `${year}-01` });
+  const navY = drawNavigation(page, font, dims, colors, navItems, links);
+  const title = `${year} - ${style === 'pixels' ? strings.yearInPixels : strings.yearOverview}`;
+  const contentTop = drawPageTitle(page, title, fontHeading, dims, colors, navY, 11);
+
+  const area: Area = {
+    left: padding.left,
+    top: contentTop,
+    width: WIDTH - padding.left - padding.right,
+    bottom: padding.bottom,
+  };
+  if (style === 'pixels') {
+    drawYearInPixels(page, ctx, year, area);
+  } else {
+    drawMiniCalendars(page, ctx, year, area);
+  }
+
+  return {
+    label: title,
+    pageIndex,
+    type: 'year',
+    date: new Date(year, 0, 1),
+  };
+}
@@ -1,25 +1,30 @@
 import type { PDFDocument, PDFFont } from 'pdf-lib';
 import { rgb } from 'pdf-lib';
-import { eachDayOfInterval, eachMonthOfInterval, eachWeekOfInterval } from 'date-fns';
+import { eachDayOfInterval, eachMonthOfInterval } from 'date-fns';
 import type { PlannerConfig, ColorScheme } from '../../../../types/planner';
-import { DENSITY_CONFIGS } from '../../../../types/planner';
-import type { PageRef, Dimensions, BujoGeneratorContext, NavContext } from './types';
-import { generateKeyPage } from './bujo-key';
+import { DENSITY_CONFIGS, DEFAULT_BUJO_CONFIG, DEFAULT_NAV_ITEMS } from '../../../../types/planner';
+import type { PageRef, Dimensions, BujoGeneratorContext, NavContext, SideTabs } from './types';
+import type { PlannerTemplate, TemplateContext, IndexResult } from '../types';
+import { generateKeyPages, getBulletKeyEntries } from './bujo-key';
+import { generateYearOverview } from './bujo-year';
 import { generateFutureLog } from './bujo-future';
 import { generateMonthlyLog } from './bujo-monthly';
+import { generateHabitTracker } from './bujo-habits';
 import { generateDailyLog } from './bujo-daily';
-import { generateWeeklyReview } from './bujo-weekly';
-import { generateCollectionPages } from './bujo-collection';
+import { generateWeeklyReview, getWeeklyReviewSections } from './bujo-weekly';
+import { generateCollectionPages, generateNamedCollection } from './bujo-collection';
 import { createInternalLink } from '../../hyperlinks';
-
-export function generateBujoPages(
-  pdfDoc: PDFDocument,
-  config: PlannerConfig,
-  font: PDFFont,
-  fontBold: PDFFont,
-  dims: Dimensions,
-  colors: ColorScheme
-): PageRef[] {
+import { resolveRecordedLinks } from '../../link-recorder';
+import { buildPageRegistry, formatYearMonth, resolveLinkTarget } from './navigation';
+import { getSideTabEdge, reserveSideTabs } from './side-tabs';
+import { fitText, reserveNavigationStrip } from './page-utils';
+import { buildBujoOutline } from './outline';
+import { getPlannerWeeks, getWeekOptions } from '../weeks';
+import type { PlannerI18n } from '../../../i18n';
+import { layoutArrow, layoutRect, textX } from '../../direction';
+
+export function generateBujoPages(templateCtx: TemplateContext): PageRef[] {
+  const { pdfDoc, config, font, fontBold, fontHeading, dims, colors, links, i18n, reportProgress } = templateCtx;
   const bujoConfig = config.bujoConfig;
   if (!bujoConfig) {
     return [];
@@ -29,60 +34,97 @@ export function generateBujoPages(
   const dailyPageStyle = bujoConfig.dailyPageStyle || 'dotgrid';
   const collectionPageStyle = bujoConfig.collectionPageStyle || 'dotgrid';
   const dotSpacing = bujoConfig.dotSpacing || 14;
+  const sideTabsMode = bujoConfig.sideTabs || 'none';
+  const yearOverview = bujoConfig.yearOverview || 'none';
 
   // Build nav context to tell page generators which sections exist
   const nav: NavContext = {
+    hasKey: bujoConfig.showBulletKey,
+    hasYearOverview: yearOverview !== 'none',
     hasFutureLog: bujoConfig.includeFutureLog,
     hasMonthlyLog: bujoConfig.includeMonthlyLog,
+    hasHabitTracker: bujoConfig.includeMonthlyLog && bujoConfig.includeHabitTracker,
     hasWeeklyReview: bujoConfig.includeWeeklyReview,
     hasDailyLog: bujoConfig.includeDailyLog,
+    hasCollections: (bujoConfig.collections ?? []).length > 0 || bujoConfig.includeCollectionPages > 0,
+    items: { ...DEFAULT_NAV_ITEMS, ...bujoConfig.navItems },
   };
 
+  // Tabs link to monthly calendars, so they need the monthly log
+  const sideTabs: SideTabs | undefined = sideTabsMode !== 'none' && bujoConfig.includeMonthlyLog
+    ? {
+      edge: getSideTabEdge(dims),
+      months: eachMonthOfInterval({ start: config.startDate, end: config.endDate }).map(formatYearMonth),
+      quarters: sideTabsMode === 'months-quarters',
+    }
+    : undefined;
+
+  const pageDims = reserveNavigationStrip(dims);
   const ctx: BujoGeneratorContext = {
-    pdfDoc, font, fontBold, dims, density,
-    dailyPageStyle, collectionPageStyle, dotSpacing, nav, colors
+    pdfDoc, font, fontBold, fontHeading,
+    dims: sideTabs ? reserveSideTabs(pageDims, sideTabs.edge) : pageDims,
+    density, dailyPageStyle, collectionPageStyle, dotSpacing, nav, colors, links,
+    weeks: getWeekOptions(config),
+    i18n,
+    sideTabs,
+    breadcrumbs: bujoConfig.breadcrumbs || 'none',
   };
   const pageRefs: PageRef[] = [];
 
   // 1. Generate Key page
   if (bujoConfig.showBulletKey) {
-    const keyRef = generateKeyPage(ctx);
-    pageRefs.push(keyRef);
+    reportProgress('Key');
+    const keyRefs = generateKeyPages(ctx, getBulletKeyEntries(bujoConfig.bulletKey, i18n.strings));
+    pageRefs.push(...keyRefs);
+  }
+
+  // 2. Generate a year overview for every year the planner touches
+  if (yearOverview !== 'none') {
+    for (let year = config.startDate.getFullYear(); year <= config.endDate.getFullYear(); year++) {
+      reportProgress('Year Overview');
+      pageRefs.push(generateYearOverview(ctx, year, yearOverview));
+    }
   }
 
-  // 2. Generate Future Log
+  // 3. Generate Future Log
   if (bujoConfig.includeFutureLog) {
+    reportProgress('Future Log');
     const futureRefs = generateFutureLog(ctx, config.startDate, bujoConfig.futureLogMonths);
     pageRefs.push(...futureRefs);
   }
 
-  // 3. Generate Monthly Logs
+  // 4. Generate Monthly Logs
   if (bujoConfig.includeMonthlyLog) {
     const months = eachMonthOfInterval({
       start: config.startDate,
       end: config.endDate,
     });
 
+    // The form edits habits as lines of text, so skip the empty ones
+    const habits = (bujoConfig.habits ?? []).map((habit) => habit.trim()).filter(Boolean);
+
     for (const monthDate of months) {
+      reportProgress('Monthly Logs');
       const monthRefs = generateMonthlyLog(ctx, monthDate);
       pageRefs.push(...monthRefs);
+
+      if (nav.hasHabitTracker) {
+        pageRefs.push(...generateHabitTracker(ctx, monthDate, habits));
+      }
     }
   }
 
-  // 4. Generate Weekly Reviews (if enabled)
+  // 5. Generate Weekly Reviews (if enabled)
   if (bujoConfig.includeWeeklyReview) {
-    const weeks = eachWeekOfInterval({
-      start: config.startDate,
-      end: config.endDate,
-    }, { weekStartsOn: 0 });
-
-    for (const weekStart of weeks) {
-      const weekRef = generateWeeklyReview(ctx, weekStart);
+    const sections = getWeeklyReviewSections(bujoConfig.weeklyReviewSections, i18n.strings);
+    for (const weekStart of getPlannerWeeks(config)) {
+      reportProgress('Weekly Reviews');
+      const weekRef = generateWeeklyReview(ctx, weekStart, sections);
       pageRefs.push(weekRef);
     }
   }
 
-  // 5. Generate Daily Logs
+  // 6. Generate Daily Logs
   if (bujoConfig.includeDailyLog) {
     const days = eachDayOfInterval({
       start: config.startDate,
@@ -96,13 +138,20 @@ export function generateBujoPages(
         continue;
       }
 
+      reportProgress('Daily Logs');
       const dailyRef = generateDailyLog(ctx, day);
       pageRefs.push(dailyRef);
     }
   }
 
-  // 6. Generate Collection Pages
-  if (bujoConfig.includeCollectionPages > 0) {
+  // 7. Generate Collection Pages: the named collections, else untitled pages
+  if ((bujoConfig.collections ?? []).length > 0) {
+    for (const collection of bujoConfig.collections) {
+      reportProgress('Collections');
+      pageRefs.push(...generateNamedCollection(ctx, collection));
+    }
+  } else if (bujoConfig.includeCollectionPages > 0) {
+    reportProgress('Collections');
     const collectionRefs = generateCollectionPages(
       ctx,
       bujoConfig.includeCollectionPages
@@ -113,6 +162,43 @@ export function generateBujoPages(
   return pageRefs;
 }
 
+/**
+ * Rough content page count for progress reporting (excludes cover and index).
+ */
+export function estimateBujoPageCount(config: PlannerConfig): number {
+  const bujoConfig = config.bujoConfig;
+  if (!bujoConfig) {
+    return 0;
+  }
+
+  const interval = { start: config.startDate, end: config.endDate };
+  let pages = 0;
+
+  if (bujoConfig.showBulletKey) pages += 1;
+  if (bujoConfig.yearOverview && bujoConfig.yearOverview !== 'none') {
+    pages += config.endDate.getFullYear() - config.startDate.getFullYear() + 1;
+  }
+  // Future log fits 2-4 months per page depending on device
+  if (bujoConfig.includeFutureLog) pages += Math.ceil(bujoConfig.futureLogMonths / 3);
+  // Calendar + tasks per month (a single combined page on larger devices)
+  if (bujoConfig.includeMonthlyLog) pages += eachMonthOfInterval(interval).length * 2;
+  if (bujoConfig.includeMonthlyLog && bujoConfig.includeHabitTracker) pages += eachMonthOfInterval(interval).length;
+  if (bujoConfig.includeWeeklyReview) {
+    pages += getPlannerWeeks(config).length;
+  }
+  if (bujoConfig.includeDailyLog) {
+    pages += eachDayOfInterval(interval).filter((day) => {
+      const dayOfWeek = day.getDay();
+      return config.includeWeekends || (dayOfWeek !== 0 && dayOfWeek !== 6);
+    }).length;
+  }
+  pages += (bujoConfig.collections ?? []).length > 0
+    ? bujoConfig.collections.reduce((sum, collection) => sum + collection.pages, 0)
+    : bujoConfig.includeCollectionPages;
+
+  return pages;
+}
+
 interface IndexPageState {
   page: ReturnType<PDFDocument['insertPage']>;
   y: number;
@@ -123,9 +209,10 @@ function createIndexPage(
   pdfDoc: PDFDocument,
   insertIndex: number,
   dims: Dimensions,
-  fontBold: PDFFont,
+  fontHeading: PDFFont,
   pageNumber: number,
   colors: ColorScheme,
+  indexTitle: string,
   title?: string
 ): IndexPageState {
   const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
@@ -147,12 +234,12 @@ function createIndexPage(
   const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
 
-  const pageTitle = title || (pageNumber === 1 ? 'INDEX' : `INDEX (${pageNumber})`);
+  const pageTitle = title || (pageNumber === 1 ? indexTitle : `${indexTitle} (${pageNumber})`);
   page.drawText(pageTitle, {
-    x: MARGIN,
+    x: textX(dims, MARGIN, pageTitle, fontHeading, 16),
     y: topY - 5,
     size: 16,
-    font: fontBold,
+    font: fontHeading,
     color: textColor,
   });
 
@@ -177,35 +264,36 @@ function groupDailyByMonth(dailyRefs: PageRef[]): Map<string, PageRef[]> {
   return grouped;
 }
 
-// Group weekly refs by month
-function groupWeeklyByMonth(weeklyRefs: PageRef[]): Map<number, PageRef[]> {
-  const grouped = new Map<number, PageRef[]>();
+// Group weekly refs by the 'YYYY-MM' month their week starts in
+function groupWeeklyByMonth(weeklyRefs: PageRef[]): Map<string, PageRef[]> {
+  const grouped = new Map<string, PageRef[]>();
   for (const ref of weeklyRefs) {
-    const monthIdx = ref.monthIndex ?? 0;
-    if (!grouped.has(monthIdx)) {
-      grouped.set(monthIdx, []);
+    const yearMonth = ref.yearMonth ?? '';
+    if (!grouped.has(yearMonth)) {
+      grouped.set(yearMonth, []);
     }
-    grouped.get(monthIdx)!.push(ref);
+    grouped.get(yearMonth)!.push(ref);
   }
   return grouped;
 }
 
-export interface BujoIndexResult {
-  pageCount: number;
-  indexRefs: PageRef[];
-}
-
 export function addBujoIndex(
   pdfDoc: PDFDocument,
   pageRefs: PageRef[],
   font: PDFFont,
   fontBold: PDFFont,
+  fontHeading: PDFFont,
   dims: Dimensions,
   insertOffset: number = 1, // Default offset of 1 to account for cover page
-  colors: ColorScheme
-): BujoIndexResult {
+  colors: ColorScheme,
+  i18n: PlannerI18n
+): IndexResult {
   const { WIDTH, MARGIN } = dims;
+  const { strings } = i18n;
   const minY = MARGIN + 30;
+  const indexTitle = strings.index.toLocaleUpperCase(i18n.locale);
+  const dailyIndexTitle = `${indexTitle} - ${strings.daily}`;
+  const dailyIndexLabel = `${strings.index} - ${strings.daily}`;
 
   const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
   const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
@@ -214,16 +302,20 @@ export function addBujoIndex(
 
   // Separate refs by type
   const keyRefs = pageRefs.filter((r) => r.type === 'key');
+  const yearRefs = pageRefs.filter((r) => r.type === 'year');
   const futureRefs = pageRefs.filter((r) => r.type === 'future');
   const monthlyRefs = pageRefs.filter((r) => r.type === 'monthly');
   const weeklyRefs = pageRefs.filter((r) => r.type === 'weekly');
   const dailyRefs = pageRefs.filter((r) => r.type === 'daily');
   const collectionRefs = pageRefs.filter((r) => r.type === 'collection');
+  // A month's tracker is listed once, by its first page
+  const habitRefs = pageRefs.filter((r, i) => r.type === 'habits'
+    && !pageRefs.slice(0, i).some((other) => other.type === 'habits' && other.yearMonth === r.yearMonth));
 
   const indexRefs: PageRef[] = [];
   let indexPageCount = 0;
-  let state = createIndexPage(pdfDoc, insertOffset, dims, fontBold, 1, colors);
-  indexRefs.push({ label: 'Index', pageIndex: insertOffset, type: 'index' });
+  let state = createIndexPage(pdfDoc, insertOffset, dims, fontHeading, 1, colors, indexTitle);
+  indexRefs.push({ label: strings.index, pageIndex: insertOffset, type: 'index' });
   indexPageCount++;
 
   const contentWidth = WIDTH - 2 * MARGIN;
@@ -234,39 +326,42 @@ export function addBujoIndex(
 
   // Helper to add a link
   const addLink = (x: number, y: number, w: number, h: number, targetIdx: number) => {
-    createInternalLink(pdfDoc, state.page, {
+    createInternalLink(pdfDoc, state.page, layoutRect(dims, {
       x,
       y: y - 2,
       width: w,
       height: h,
-    }, targetIdx + indexPageCount);
+    }), targetIdx + indexPageCount);
   };
+  const arrow = layoutArrow(dims, ' >');
+  const weekArrow = layoutArrow(dims, '>');
 
   // === PAGE 1: Monthly + Weekly Overview ===
 
-  // Key & Future Log (compact, single line each)
-  if (keyRefs.length > 0 || futureRefs.length > 0) {
+  // Key, year overviews & Future Log (compact, wrapping when a long planner has many years)
+  if (keyRefs.length > 0 || yearRefs.length > 0 || futureRefs.length > 0) {
     let x = MARGIN;
-    if (keyRefs.length > 0) {
-      state.page.drawText('Key', { x, y: state.y, size: fontSize, font, color: textColor });
-      const keyWidth = font.widthOfTextAtSize('Key', fontSize);
-      state.page.drawText(' >', { x: x + keyWidth, y: state.y, size: fontSize, font, color: mutedColor });
-      addLink(x, state.y, keyWidth + 15, 12, keyRefs[0].pageIndex);
-      x += keyWidth + 30;
-    }
-    if (futureRefs.length > 0) {
-      state.page.drawText('Future Log', { x, y: state.y, size: fontSize, font, color: textColor });
-      const flWidth = font.widthOfTextAtSize('Future Log', fontSize);
-      state.page.drawText(' >', { x: x + flWidth, y: state.y, size: fontSize, font, color: mutedColor });
-      addLink(x, state.y, flWidth + 15, 12, futureRefs[0].pageIndex);
-    }
+    const addEntry = (label: string, pageIndex: number) => {
+      const labelWidth = font.widthOfTextAtSize(label, fontSize);
+      if (x > MARGIN && x + labelWidth + 15 > WIDTH - MARGIN) {
+        x = MARGIN;
+        state.y -= 14;
+      }
+      state.page.drawText(label, { x: textX(dims, x, label, font, fontSize), y: state.y, size: fontSize, font, color: textColor });
+      state.page.drawText(arrow, { x: textX(dims, x + labelWidth, arrow, font, fontSize), y: state.y, size: fontSize, font, color: mutedColor });
+      addLink(x, state.y, labelWidth + 15, 12, pageIndex);
+      x += labelWidth + 30;
+    };
+    if (keyRefs.length > 0) addEntry(strings.key, keyRefs[0].pageIndex);
+    for (const ref of yearRefs) addEntry(String(ref.date!.getFullYear()), ref.pageIndex);
+    if (futureRefs.length > 0) addEntry(strings.futureLog, futureRefs[0].pageIndex);
     state.y -= 20;
   }
 
   // Monthly + Weekly table header
   if (monthlyRefs.length > 0 || weeklyRefs.length > 0) {
-    state.page.drawText('Monthly', {
-      x: MARGIN,
+    state.page.drawText(strings.monthly, {
+      x: textX(dims, MARGIN, strings.monthly, fontBold, fontSize + 1),
       y: state.y,
       size: fontSize + 1,
       font: fontBold,
@@ -274,8 +369,8 @@ export function addBujoIndex(
     });
 
     if (weeklyRefs.length > 0) {
-      state.page.drawText('Weekly Reviews', {
-        x: MARGIN + monthColWidth,
+      state.page.drawText(strings.weeklyReviews, {
+        x: textX(dims, MARGIN + monthColWidth, strings.weeklyReviews, fontBold, fontSize + 1),
         y: state.y,
         size: fontSize + 1,
         font: fontBold,
@@ -310,27 +405,31 @@ export function addBujoIndex(
       }
     }
 
+    // A week that starts before the first month (e.g. Dec 29 for a January
+    // start) is listed with the first month
+    const firstMonthKey = [...uniqueMonths.values()][0]?.ref.yearMonth ?? '';
+
     for (const [, { date, ref }] of uniqueMonths) {
       if (state.y < minY) {
-        state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontBold, indexPageCount + 1, colors);
-        indexRefs.push({ label: `Index (${indexPageCount + 1})`, pageIndex: insertOffset + indexPageCount, type: 'index' });
+        state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontHeading, indexPageCount + 1, colors, indexTitle);
+        indexRefs.push({ label: `${strings.index} (${indexPageCount + 1})`, pageIndex: insertOffset + indexPageCount, type: 'index' });
         indexPageCount++;
       }
 
-      const monthName = date.toLocaleString('default', { month: 'long' });
-      const monthIdx = date.getMonth();
+      const monthName = i18n.formatDate(date, strings.dates.month);
+      const yearMonth = ref.yearMonth ?? '';
 
       // Month name with arrow
       state.page.drawText(monthName, {
-        x: MARGIN,
+        x: textX(dims, MARGIN, monthName, font, fontSize),
         y: state.y,
         size: fontSize,
         font,
         color: textColor,
       });
       const monthWidth = font.widthOfTextAtSize(monthName, fontSize);
-      state.page.drawText(' >', {
-        x: MARGIN + monthWidth,
+      state.page.drawText(arrow, {
+        x: textX(dims, MARGIN + monthWidth, arrow, font, fontSize),
         y: state.y,
         size: fontSize,
         font,
@@ -338,21 +437,31 @@ export function addBujoIndex(
       });
       addLink(MARGIN, state.y, monthWidth + 15, 12, ref.pageIndex);
 
-      // Weekly links for this month
-      const monthWeeks = weeklyByMonth.get(monthIdx) || [];
-      let wx = MARGIN + monthColWidth;
+      // Weekly links for this month, wrapping under each other on narrow pages
+      const monthWeeks = [
+        ...(yearMonth === firstMonthKey
+          ? weeklyRefs.filter((w) => (w.yearMonth ?? '') < firstMonthKey)
+          : []),
+        ...(weeklyByMonth.get(yearMonth) || []),
+      ];
+      const weeksLeft = MARGIN + monthColWidth;
+      let wx = weeksLeft;
       for (const weekRef of monthWeeks) {
         const weekNum = weekRef.weekIndex?.toString() || '?';
+        const numWidth = font.widthOfTextAtSize(weekNum, smallFontSize);
+        if (wx > weeksLeft && wx + numWidth + 10 > WIDTH - MARGIN) {
+          wx = weeksLeft;
+          state.y -= 12;
+        }
         state.page.drawText(weekNum, {
-          x: wx,
+          x: textX(dims, wx, weekNum, font, smallFontSize),
           y: state.y,
           size: smallFontSize,
           font,
           color: textColor,
         });
-        const numWidth = font.widthOfTextAtSize(weekNum, smallFontSize);
-        state.page.drawText('>', {
-          x: wx + numWidth + 1,
+        state.page.drawText(weekArrow, {
+          x: textX(dims, wx + numWidth + 1, weekArrow, font, smallFontSize),
           y: state.y,
           size: smallFontSize,
           font,
@@ -374,14 +483,53 @@ export function addBujoIndex(
     }
   }
 
+  // Habit trackers: one short month name per tracker
+  if (habitRefs.length > 0) {
+    if (state.y < minY + 30) {
+      state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontHeading, indexPageCount + 1, colors, indexTitle);
+      indexRefs.push({ label: `${strings.index} (${indexPageCount + 1})`, pageIndex: insertOffset + indexPageCount, type: 'index' });
+      indexPageCount++;
+    }
+
+    state.y -= 6;
+    state.page.drawText(strings.habitTracker, {
+      x: textX(dims, MARGIN, strings.habitTracker, fontBold, fontSize + 1),
+      y: state.y,
+      size: fontSize + 1,
+      font: fontBold,
+      color: textColor,
+    });
+    state.y -= 15;
+
+    let hx = MARGIN;
+    for (const ref of habitRefs) {
+      const monthLabel = i18n.formatDate(ref.date!, strings.dates.shortMonth);
+      const labelWidth = font.widthOfTextAtSize(monthLabel, smallFontSize);
+      if (hx + labelWidth > WIDTH - MARGIN) {
+        hx = MARGIN;
+        state.y -= 12;
+      }
+      state.page.drawText(monthLabel, {
+        x: textX(dims, hx, monthLabel, font, smallFontSize),
+        y: state.y,
+        size: smallFontSize,
+        font,
+        color: textColor,
+      });
+      addLink(hx - 1, state.y, labelWidth + 2, 10, ref.pageIndex);
+      hx += labelWidth + 8;
+    }
+    state.y -= 20;
+  }
+
   // === PAGE 2+: Daily Logs (compact grid by month) ===
   if (dailyRefs.length > 0) {
-    state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontBold, indexPageCount + 1, colors, 'INDEX - Daily');
-    indexRefs.push({ label: 'Index - Daily', pageIndex: insertOffset + indexPageCount, type: 'index' });
+    state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontHeading, indexPageCount + 1, colors, indexTitle, dailyIndexTitle);
+    indexRefs.push({ label: dailyIndexLabel, pageIndex: insertOffset + indexPageCount, type: 'index' });
     indexPageCount++;
 
-    state.page.drawText('Daily Logs', {
-      x: MARGIN,
+    state.page.drawText(strings.dailyLogs, {
+      x: textX(dims, MARGIN, strings.dailyLogs, fontBold, fontSize + 1),
       y: state.y,
       size: fontSize + 1,
       font: fontBold,
@@ -395,18 +543,18 @@ export function addBujoIndex(
 
     for (const [, days] of dailyByMonth) {
       if (state.y < minY + monthRowHeight) {
-        state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontBold, indexPageCount + 1, colors, 'INDEX - Daily');
-        indexRefs.push({ label: 'Index - Daily', pageIndex: insertOffset + indexPageCount, type: 'index' });
+        state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontHeading, indexPageCount + 1, colors, indexTitle, dailyIndexTitle);
+        indexRefs.push({ label: dailyIndexLabel, pageIndex: insertOffset + indexPageCount, type: 'index' });
         indexPageCount++;
       }
 
       // Get month name from first day
       const firstDay = days[0].date!;
-      const monthName = firstDay.toLocaleString('default', { month: 'long' });
+      const monthName = i18n.formatDate(firstDay, strings.dates.month);
 
       // Month header
       state.page.drawText(monthName, {
-        x: MARGIN,
+        x: textX(dims, MARGIN, monthName, font, fontSize),
         y: state.y,
         size: fontSize,
         font,
@@ -430,7 +578,7 @@ export function addBujoIndex(
         const dx = MARGIN + col * dayNumWidth;
 
         state.page.drawText(dayNum, {
-          x: dx,
+          x: textX(dims, dx, dayNum, font, smallFontSize),
           y: state.y,
           size: smallFontSize,
           font,
@@ -454,13 +602,13 @@ export function addBujoIndex(
   // === Collections (if any) ===
   if (collectionRefs.length > 0) {
     if (state.y < minY + 50) {
-      state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontBold, indexPageCount + 1, colors);
-      indexRefs.push({ label: `Index (${indexPageCount + 1})`, pageIndex: insertOffset + indexPageCount, type: 'index' });
+      state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontHeading, indexPageCount + 1, colors, indexTitle);
+      indexRefs.push({ label: `${strings.index} (${indexPageCount + 1})`, pageIndex: insertOffset + indexPageCount, type: 'index' });
       indexPageCount++;
     }
 
-    state.page.drawText('Collections', {
-      x: MARGIN,
+    state.page.drawText(strings.collections, {
+      x: textX(dims, MARGIN, strings.collections, fontBold, fontSize + 1),
       y: state.y,
       size: fontSize + 1,
       font: fontBold,
@@ -468,13 +616,32 @@ export function addBujoIndex(
     });
     state.y -= 15;
 
-    // Show collection page numbers in a row
+    // Named collections by name, each linking to its first page
+    const namedRefs = collectionRefs.filter((ref, i) =>
+      ref.collection !== undefined && collectionRefs.findIndex((other) => other.collection === ref.collection) === i);
+    for (const ref of namedRefs) {
+      if (state.y < minY) {
+        state = createIndexPage(pdfDoc, insertOffset + indexPageCount, dims, fontHeading, indexPageCount + 1, colors, indexTitle);
+        indexRefs.push({ label: `${strings.index} (${indexPageCount + 1})`, pageIndex: insertOffset + indexPageCount, type: 'index' });
+        indexPageCount++;
+      }
+
+      const name = fitText(ref.collection!, font, fontSize, WIDTH - 2 * MARGIN - 15);
+      state.page.drawText(name, { x: textX(dims, MARGIN, name, font, fontSize), y: state.y, size: fontSize, font, color: textColor });
+      const nameWidth = font.widthOfTextAtSize(name, fontSize);
+      state.page.drawText(arrow, { x: textX(dims, MARGIN + nameWidth, arrow, font, fontSize), y: state.y, size: fontSize, font, color: mutedColor });
+      addLink(MARGIN, state.y, nameWidth + 15, 12, ref.pageIndex);
+      state.y -= 14;
+    }
+
+    // Show untitled collection page numbers in a row
+    const untitledRefs = collectionRefs.filter((ref) => ref.collection === undefined);
     let cx = MARGIN;
-    for (let i = 0; i < collectionRefs.length; i++) {
-      const ref = collectionRefs[i];
+    for (let i = 0; i < untitledRefs.length; i++) {
+      const ref = untitledRefs[i];
       const num = (i + 1).toString();
       state.page.drawText(num, {
-        x: cx,
+        x: textX(dims, cx, num, font, smallFontSize),
         y: state.y,
         size: smallFontSize,
         font,
@@ -493,4 +660,33 @@ export function addBujoIndex(
   return { pageCount: indexPageCount, indexRefs };
 }
 
+/**
+ * Link every BuJo page once the index is inserted and page indices are final.
+ */
+function addBujoNavigation(ctx: TemplateContext, pageRefs: PageRef[], indexPageIndex: number): void {
+  // Build registry with all pages including index
+  const registry = buildPageRegistry(pageRefs, indexPageIndex);
+
+  // Resolve nav bar and calendar date links recorded while drawing
+  resolveRecordedLinks(ctx.pdfDoc, ctx.links, (target, sourcePageIndex) =>
+    resolveLinkTarget(target, sourcePageIndex, registry)
+  );
+}
+
+export const bujoTemplate: PlannerTemplate = {
+  id: 'bujo',
+  label: 'Bullet Journal',
+  description: 'Rapid logging with future & monthly logs',
+  coverTitle: 'Bullet Journal',
+  features: { dateRange: true, timeSlots: false, navigation: true },
+  defaults: { bujoConfig: DEFAULT_BUJO_CONFIG },
+  estimatePageCount: estimateBujoPageCount,
+  generate: generateBujoPages,
+  addIndex: ({ pdfDoc, font, fontBold, fontHeading, dims, colors, i18n }, pageRefs, insertAt) =>
+    addBujoIndex(pdfDoc, pageRefs, font, fontBold, fontHeading, dims, insertAt, colors, i18n),
+  addNavigation: addBujoNavigation,
+  buildOutline: ({ i18n }, pageRefs, indexPageIndex) =>
+    buildBujoOutline(pageRefs, buildPageRegistry(pageRefs, indexPageIndex), i18n),
+};
+
 export { type PageRef } from './types';
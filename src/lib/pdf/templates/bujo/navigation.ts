@@ -1,9 +1,178 @@
-import { rgb } from 'pdf-lib';
-import type { PDFDocument, PDFPage, PDFFont } from 'pdf-lib';
-import { getWeek } from 'date-fns';
-import { createInternalLink } from '../../hyperlinks';
-import type { PageRef, PageType, PageRegistry, NavItem, Dimensions } from './types';
-import type { ColorScheme } from '../../../../types/planner';
+import { addDays, addMonths, endOfMonth, parseISO } from 'date-fns';
+import { linkTarget, parseLinkTarget } from '../../link-recorder';
+import type { BujoNavPage, NavItemKind } from '../../../../types/planner';
+import type { PlannerI18n } from '../../../i18n';
+import type { NavContext, PageRef, PageType, PageRegistry, NavItem } from './types';
+
+/**
+ * Where the current page sits, used to key month/week/day-specific nav targets.
+ */
+export interface NavPageContext {
+  yearMonth?: string;
+  weekKey?: string;
+  date?: string; // 'YYYY-MM-DD' of a daily page
+}
+
+interface NavItemSource {
+  pageType: BujoNavPage;
+  current: NavPageContext;
+  i18n: PlannerI18n;
+}
+
+type NavSection = Exclude<keyof NavContext, 'items'>;
+
+interface NavItemDefinition {
+  // Section the link goes to; the item is left out of planners without any of them
+  requires?: NavSection | NavSection[];
+  // Undefined when the page has nothing to key the link by (e.g. no month)
+  build: (source: NavItemSource) => NavItem | undefined;
+}
+
+function monthStep({ current, i18n }: NavItemSource, months: number): NavItem | undefined {
+  if (!current.yearMonth) return undefined;
+  const [year, month] = current.yearMonth.split('-').map(Number);
+  const date = addMonths(new Date(year, month - 1, 1), months);
+  return {
+    label: i18n.formatDate(date, i18n.strings.dates.shortMonth),
+    targetType: 'monthly',
+    targetKey: formatYearMonth(date),
+  };
+}
+
+/**
+ * What every nav bar link shows and where it goes. Drawing and link
+ * resolution both work from these, so a page type's nav bar is just a list of kinds.
+ */
+const NAV_ITEM_DEFINITIONS: Record<NavItemKind, NavItemDefinition> = {
+  index: {
+    build: ({ i18n }) => ({ label: i18n.strings.index, targetType: 'index' }),
+  },
+  key: {
+    requires: 'hasKey',
+    build: ({ i18n }) => ({ label: i18n.strings.key, targetType: 'key' }),
+  },
+  future: {
+    requires: 'hasFutureLog',
+    build: ({ i18n }) => ({ label: i18n.strings.futureLog, targetType: 'future' }),
+  },
+  // The page's year overview, else the first month of its year
+  year: {
+    requires: ['hasYearOverview', 'hasMonthlyLog'],
+    build: ({ current }) => {
+      const year = current.yearMonth?.slice(0, 4);
+      return year ? { label: year, targetType: 'year', targetKey: year } : undefined;
+    },
+  },
+  monthly: {
+    requires: 'hasMonthlyLog',
+    build: ({ i18n, pageType, current }) => current.yearMonth ? {
+      // Seen from the month's tasks, its calendar is the other half of the month
+      label: pageType === 'monthly-tasks' ? i18n.strings.calendar : i18n.strings.monthly,
+      targetType: 'monthly',
+      targetKey: current.yearMonth,
+    } : undefined,
+  },
+  'monthly-tasks': {
+    requires: 'hasMonthlyLog',
+    build: ({ i18n, current }) => current.yearMonth
+      ? { label: i18n.strings.tasks, targetType: 'monthly-tasks', targetKey: current.yearMonth }
+      : undefined,
+  },
+  habits: {
+    requires: 'hasHabitTracker',
+    build: ({ i18n, current }) => current.yearMonth
+      ? { label: i18n.strings.habits, targetType: 'habits', targetKey: current.yearMonth }
+      : undefined,
+  },
+  weekly: {
+    requires: 'hasWeeklyReview',
+    build: ({ i18n, current }) => current.weekKey
+      ? { label: i18n.strings.weekly, targetType: 'weekly', targetKey: current.weekKey }
+      : undefined,
+  },
+  // The page's own day, else the first day of its week or month that has a
+  // daily page (weekends may be left out), keyed as a 'from..to' span
+  daily: {
+    requires: 'hasDailyLog',
+    build: ({ i18n, current }) => {
+      let targetKey = current.date;
+      if (!targetKey && current.weekKey) {
+        targetKey = `${current.weekKey}..${formatDateKey(addDays(parseISO(current.weekKey), 6))}`;
+      } else if (!targetKey && current.yearMonth) {
+        const monthStart = parseISO(`${current.yearMonth}-01`);
+        targetKey = `${formatDateKey(monthStart)}..${formatDateKey(endOfMonth(monthStart))}`;
+      }
+      return targetKey ? { label: i18n.strings.daily, targetType: 'daily', targetKey } : undefined;
+    },
+  },
+  collections: {
+    requires: 'hasCollections',
+    build: ({ i18n }) => ({ label: i18n.strings.collections, targetType: 'collection' }),
+  },
+  prev: {
+    build: ({ pageType }) => ({ label: '<', targetType: 'prev', targetKey: pageType }),
+  },
+  next: {
+    build: ({ pageType }) => ({ label: '>', targetType: 'next', targetKey: pageType }),
+  },
+  'prev-month': {
+    requires: 'hasMonthlyLog',
+    build: (source) => monthStep(source, -1),
+  },
+  'next-month': {
+    requires: 'hasMonthlyLog',
+    build: (source) => monthStep(source, 1),
+  },
+};
+
+/**
+ * Nav bar items for a page, in the order nav.items lists them for its type.
+ * Items for sections the planner doesn't have are left out.
+ */
+export function getNavItems(
+  pageType: BujoNavPage,
+  nav: NavContext,
+  i18n: PlannerI18n,
+  current: NavPageContext = {}
+): NavItem[] {
+  const items: NavItem[] = [];
+  for (const kind of nav.items[pageType]) {
+    const definition = NAV_ITEM_DEFINITIONS[kind];
+    const requires = typeof definition.requires === 'string' ? [definition.requires] : definition.requires;
+    if (requires && !requires.some((section) => nav[section])) continue;
+    const item = definition.build({ pageType, current, i18n });
+    if (item) items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Breadcrumb for a dated page, from its year down to the page itself, e.g.
+ * '2026 › March › W10 › Tue 4' on a daily page. Built from the page's PageRef
+ * fields, so a weekly page ends at its week and a monthly page at its month.
+ * The year links to the year overview, or the year's first month without one.
+ */
+export function getBreadcrumbItems(
+  ref: Pick<PageRef, 'type' | 'date' | 'yearMonth' | 'weekIndex' | 'weekKey'>,
+  i18n: PlannerI18n
+): NavItem[] {
+  const { strings } = i18n;
+  const { date, yearMonth } = ref;
+  if (!date || !yearMonth) return [];
+
+  const [year, month] = yearMonth.split('-').map(Number);
+  const items: NavItem[] = [
+    { label: String(year), targetType: 'year', targetKey: String(year) },
+    { label: i18n.formatDate(new Date(year, month - 1, 1), strings.dates.month), targetType: 'monthly', targetKey: yearMonth },
+  ];
+  if (ref.weekKey && ref.weekIndex !== undefined) {
+    items.push({ label: `${strings.pageLabels.week}${ref.weekIndex}`, targetType: 'weekly', targetKey: ref.weekKey });
+  }
+  if (ref.type === 'daily') {
+    items.push({ label: i18n.formatDate(date, strings.dates.shortDay), targetType: 'daily', targetKey: formatDateKey(date) });
+  }
+  return items;
+}
 
 /**
  * Build a registry of all pages for navigation resolution.
@@ -15,17 +184,20 @@ export function buildPageRegistry(
 ): PageRegistry {
   const registry: PageRegistry = {
     indexPage: indexPageIndex,
+    yearPages: new Map(),
     futureLogPages: [],
     monthlyCalPages: new Map(),
     monthlyTasksPages: new Map(),
+    habitPages: new Map(),
     weeklyPages: new Map(),
     dailyPages: new Map(),
     collectionPages: [],
+    collectionGroups: new Map(),
     pagesByType: new Map(),
   };
 
   // Initialize pagesByType for all types
-  const types: PageType[] = ['key', 'future', 'monthly', 'monthly-tasks', 'weekly', 'daily', 'collection', 'index'];
+  const types: PageType[] = ['key', 'year', 'future', 'monthly', 'monthly-tasks', 'habits', 'weekly', 'daily', 'collection', 'index'];
   for (const t of types) {
     registry.pagesByType.set(t, []);
   }
@@ -39,7 +211,14 @@ export function buildPageRegistry(
 
     switch (ref.type) {
       case 'key':
-        registry.keyPage = ref.pageIndex;
+        // A key that runs over several pages links to the first
+        registry.keyPage ??= ref.pageIndex;
+        break;
+
+      case 'year':
+        if (ref.date) {
+          registry.yearPages.set(String(ref.date.getFullYear()), ref.pageIndex);
+        }
         break;
 
       case 'future':
@@ -47,7 +226,8 @@ export function buildPageRegistry(
         break;
 
       case 'monthly':
-        if (ref.yearMonth) {
+        // Months split over several calendar pages link to the first
+        if (ref.yearMonth && !registry.monthlyCalPages.has(ref.yearMonth)) {
           registry.monthlyCalPages.set(ref.yearMonth, ref.pageIndex);
         }
         break;
@@ -58,9 +238,16 @@ export function buildPageRegistry(
         }
         break;
 
+      case 'habits':
+        // Trackers that run over several pages link to the first
+        if (ref.yearMonth && !registry.habitPages.has(ref.yearMonth)) {
+          registry.habitPages.set(ref.yearMonth, ref.pageIndex);
+        }
+        break;
+
       case 'weekly':
-        if (ref.weekIndex !== undefined) {
-          registry.weeklyPages.set(ref.weekIndex, ref.pageIndex);
+        if (ref.weekKey) {
+          registry.weeklyPages.set(ref.weekKey, ref.pageIndex);
         }
         break;
 
@@ -73,6 +260,10 @@ export function buildPageRegistry(
 
       case 'collection':
         registry.collectionPages.push(ref.pageIndex);
+        registry.collectionGroups.set(ref.collection ?? '', [
+          ...(registry.collectionGroups.get(ref.collection ?? '') ?? []),
+          ref.pageIndex,
+        ]);
         break;
     }
   }
@@ -80,7 +271,7 @@ export function buildPageRegistry(
   return registry;
 }
 
-function formatDateKey(date: Date): string {
+export function formatDateKey(date: Date): string {
   const y = date.getFullYear();
   const m = String(date.getMonth() + 1).padStart(2, '0');
   const d = String(date.getDate()).padStart(2, '0');
@@ -93,125 +284,39 @@ export function formatYearMonth(date: Date): string {
   return `${y}-${m}`;
 }
 
-/**
- * Get navigation items for a specific page type.
- * Returns full readable labels for better usability.
- * MUST match getNavLabels() in page-utils.ts for correct link positioning.
- */
-export function getNavItemsForPage(
-  ref: PageRef,
-  registry: PageRegistry
-): NavItem[] {
-  const items: NavItem[] = [];
-
-  // Get yearMonth for context-aware navigation
-  const yearMonth = ref.yearMonth || (ref.date ? formatYearMonth(ref.date) : undefined);
-  const weekIndex = ref.weekIndex?.toString();
-
-  // Check what sections exist (must match NavContext logic in page generators)
-  const hasFutureLog = registry.futureLogPages.length > 0;
-  const hasMonthlyLog = registry.monthlyCalPages.size > 0;
-  const hasWeeklyReview = registry.weeklyPages.size > 0;
-
-  switch (ref.type) {
-    case 'daily':
-      // Daily: Index | Future Log | Monthly | Tasks | Weekly
-      items.push({ label: 'Index', targetType: 'index' });
-      if (hasFutureLog) {
-        items.push({ label: 'Future Log', targetType: 'future' });
-      }
-      if (hasMonthlyLog) {
-        items.push({ label: 'Monthly', targetType: 'monthly', targetKey: yearMonth });
-        items.push({ label: 'Tasks', targetType: 'monthly-tasks', targetKey: yearMonth });
-      }
-      if (hasWeeklyReview) {
-        items.push({ label: 'Weekly', targetType: 'weekly', targetKey: weekIndex });
-      }
-      break;
-
-    case 'weekly':
-      // Weekly: < | Index | Future Log | Monthly | Tasks | >
-      items.push({ label: '<', targetType: 'prev' });
-      items.push({ label: 'Index', targetType: 'index' });
-      if (hasFutureLog) {
-        items.push({ label: 'Future Log', targetType: 'future' });
-      }
-      if (hasMonthlyLog) {
-        items.push({ label: 'Monthly', targetType: 'monthly', targetKey: yearMonth });
-        items.push({ label: 'Tasks', targetType: 'monthly-tasks', targetKey: yearMonth });
-      }
-      items.push({ label: '>', targetType: 'next' });
-      break;
-
-    case 'monthly':
-      // Monthly Calendar: < | Index | Future Log | Tasks | >
-      items.push({ label: '<', targetType: 'prev' });
-      items.push({ label: 'Index', targetType: 'index' });
-      if (hasFutureLog) {
-        items.push({ label: 'Future Log', targetType: 'future' });
-      }
-      items.push({ label: 'Tasks', targetType: 'monthly-tasks', targetKey: yearMonth });
-      items.push({ label: '>', targetType: 'next' });
-      break;
-
-    case 'monthly-tasks':
-      // Monthly Tasks: < | Index | Future Log | Calendar | >
-      items.push({ label: '<', targetType: 'prev' });
-      items.push({ label: 'Index', targetType: 'index' });
-      if (hasFutureLog) {
-        items.push({ label: 'Future Log', targetType: 'future' });
-      }
-      items.push({ label: 'Calendar', targetType: 'monthly', targetKey: yearMonth });
-      items.push({ label: '>', targetType: 'next' });
-      break;
-
-    case 'future':
-      // Future Log: Index (arrows handled differently - not shown in text)
-      items.push({ label: 'Index', targetType: 'index' });
-      break;
-
-    case 'key':
-      // Key: Index | Future Log
-      items.push({ label: 'Index', targetType: 'index' });
-      if (hasFutureLog) {
-        items.push({ label: 'Future Log', targetType: 'future' });
-      }
-      break;
-
-    case 'collection':
-      // Collection: < | Index | >
-      items.push({ label: '<', targetType: 'prev' });
-      items.push({ label: 'Index', targetType: 'index' });
-      items.push({ label: '>', targetType: 'next' });
-      break;
-
-    case 'index':
-      // Index: Future Log (if exists)
-      if (hasFutureLog) {
-        items.push({ label: 'Future Log', targetType: 'future' });
-      }
-      break;
-  }
-
-  return items;
-}
-
 /**
  * Resolve a nav item to a target page index.
+ * prev/next items carry the page type to step through in targetKey and are
+ * resolved relative to the page the link sits on.
  */
 export function resolveNavTarget(
   item: NavItem,
-  ref: PageRef,
+  sourcePageIndex: number,
   registry: PageRegistry
 ): number | undefined {
   switch (item.targetType) {
     case 'index':
-      return registry.indexPage;
+      return registry.indexPage >= 0 ? registry.indexPage : undefined;
 
     case 'future':
       return registry.futureLogPages[0];
 
+    case 'key':
+      return registry.keyPage;
+
+    case 'year':
+      if (item.targetKey) {
+        return registry.yearPages.get(item.targetKey)
+          ?? resolveNavTarget({ ...item, targetType: 'monthly' }, sourcePageIndex, registry);
+      }
+      break;
+
     case 'monthly':
+      // A bare 'YYYY' key is the first month of that year
+      if (item.targetKey?.length === 4) {
+        const first = [...registry.monthlyCalPages].find(([yearMonth]) => yearMonth.startsWith(item.targetKey!));
+        return first?.[1];
+      }
       if (item.targetKey) {
         return registry.monthlyCalPages.get(item.targetKey);
       }
@@ -223,17 +328,41 @@ export function resolveNavTarget(
       }
       break;
 
+    case 'habits':
+      if (item.targetKey) {
+        return registry.habitPages.get(item.targetKey);
+      }
+      break;
+
     case 'weekly':
       if (item.targetKey) {
-        return registry.weeklyPages.get(parseInt(item.targetKey));
+        return registry.weeklyPages.get(item.targetKey);
+      }
+      break;
+
+    case 'daily':
+      // A 'from..to' span is its first day with a page; dailyPages is in date order
+      if (item.targetKey?.includes('..')) {
+        const [from, to] = item.targetKey.split('..');
+        const first = [...registry.dailyPages].find(([date]) => date >= from && date <= to);
+        return first?.[1];
+      }
+      if (item.targetKey) {
+        return registry.dailyPages.get(item.targetKey);
       }
       break;
 
+    case 'collection':
+      return registry.collectionPages[Number(item.targetKey ?? 0)];
+
     case 'prev':
     case 'next': {
-      const typePages = registry.pagesByType.get(ref.type);
+      // Collection pages step through their own collection
+      const typePages = item.targetKey === 'collection'
+        ? [...registry.collectionGroups.values()].find((pages) => pages.includes(sourcePageIndex))
+        : item.targetKey ? registry.pagesByType.get(item.targetKey as PageType) : undefined;
       if (!typePages) return undefined;
-      const idx = typePages.indexOf(ref.pageIndex);
+      const idx = typePages.indexOf(sourcePageIndex);
       if (idx === -1) return undefined;
       if (item.targetType === 'prev' && idx > 0) {
         return typePages[idx - 1];
@@ -249,295 +378,21 @@ export function resolveNavTarget(
 }
 
 /**
- * Draw navigation text and return positions for linking.
- * Returns array of { label, x, width } for each nav item.
+ * Symbolic link target for a nav item, e.g. 'monthly-tasks:2026-03'.
  */
-export function drawNavText(
-  page: PDFPage,
-  font: PDFFont,
-  dims: Dimensions,
-  items: NavItem[]
-): Array<{ item: NavItem; x: number; width: number }> {
-  const { HEIGHT, MARGIN } = dims;
-  const navFontSize = 7;
-  const navY = HEIGHT - MARGIN - 2;
-  const navColor = rgb(0.45, 0.45, 0.45);
-  const separatorColor = rgb(0.7, 0.7, 0.7);
-
-  const positions: Array<{ item: NavItem; x: number; width: number }> = [];
-  let navX = MARGIN;
-
-  for (let i = 0; i < items.length; i++) {
-    const item = items[i];
-    const textWidth = font.widthOfTextAtSize(item.label, navFontSize);
-
-    page.drawText(item.label, {
-      x: navX,
-      y: navY,
-      size: navFontSize,
-      font,
-      color: navColor,
-    });
-
-    positions.push({ item, x: navX, width: textWidth });
-
-    navX += textWidth;
-
-    if (i < items.length - 1) {
-      page.drawText('  |  ', {
-        x: navX,
-        y: navY,
-        size: navFontSize,
-        font,
-        color: separatorColor,
-      });
-      navX += font.widthOfTextAtSize('  |  ', navFontSize);
-    }
-  }
-
-  return positions;
+export function navItemTarget(item: NavItem): string {
+  return linkTarget(item.targetType, item.targetKey);
 }
 
 /**
- * Add clickable links to already-drawn navigation text.
+ * Resolve a recorded symbolic link target against the registry.
  */
-export function addNavLinks(
-  pdfDoc: PDFDocument,
-  page: PDFPage,
-  dims: Dimensions,
-  positions: Array<{ item: NavItem; x: number; width: number }>,
-  ref: PageRef,
+export function resolveLinkTarget(
+  target: string,
+  sourcePageIndex: number,
   registry: PageRegistry
-): void {
-  const { HEIGHT, MARGIN } = dims;
-  const navY = HEIGHT - MARGIN - 2;
-  const linkHeight = 12;
-
-  for (const pos of positions) {
-    const targetPage = resolveNavTarget(pos.item, ref, registry);
-    if (targetPage !== undefined) {
-      createInternalLink(pdfDoc, page, {
-        x: pos.x - 2,
-        y: navY - 3,
-        width: pos.width + 4,
-        height: linkHeight,
-      }, targetPage);
-    }
-  }
-}
-
-/**
- * Draw navigation bar with placeholder text (links added later).
- * Returns Y position below navigation for content to start.
- */
-export function drawTopNavPlaceholder(
-  page: PDFPage,
-  font: PDFFont,
-  dims: Dimensions,
-  itemLabels: string[]
-): number {
-  const { HEIGHT, MARGIN } = dims;
-  const navFontSize = 7;
-  const navY = HEIGHT - MARGIN - 2;
-  const navColor = rgb(0.45, 0.45, 0.45);
-  const separatorColor = rgb(0.7, 0.7, 0.7);
-
-  let navX = MARGIN;
-
-  for (let i = 0; i < itemLabels.length; i++) {
-    page.drawText(itemLabels[i], {
-      x: navX,
-      y: navY,
-      size: navFontSize,
-      font,
-      color: navColor,
-    });
-    navX += font.widthOfTextAtSize(itemLabels[i], navFontSize);
-
-    if (i < itemLabels.length - 1) {
-      page.drawText('  |  ', {
-        x: navX,
-        y: navY,
-        size: navFontSize,
-        font,
-        color: separatorColor,
-      });
-      navX += font.widthOfTextAtSize('  |  ', navFontSize);
-    }
-  }
-
-  return navY - navFontSize - 6;
-}
-
-/**
- * Add comprehensive navigation to all BuJo pages after they've been generated.
- * This should be called after all pages are created, index is added, and page indices are final.
- */
-export function addComprehensiveNavigation(
-  pdfDoc: PDFDocument,
-  font: PDFFont,
-  dims: Dimensions,
-  pageRefs: PageRef[],
-  registry: PageRegistry,
-  _colors: ColorScheme // Accepted for API consistency, links don't need colors
-): void {
-  const { HEIGHT, padding } = dims;
-  const navFontSize = 7;
-  // Must match drawTopNavigation positioning in page-utils.ts
-  const navY = HEIGHT - padding.top - navFontSize - 2;
-  const linkHeight = 12;
-
-  for (const ref of pageRefs) {
-    const page = pdfDoc.getPage(ref.pageIndex);
-    const navItems = getNavItemsForPage(ref, registry);
-
-    // Calculate positions (must match what was drawn by page generators)
-    let navX = padding.left;
-    for (let i = 0; i < navItems.length; i++) {
-      const item = navItems[i];
-      const textWidth = font.widthOfTextAtSize(item.label, navFontSize);
-
-      const targetPage = resolveNavTarget(item, ref, registry);
-      if (targetPage !== undefined) {
-        createInternalLink(pdfDoc, page, {
-          x: navX - 2,
-          y: navY - 3,
-          width: textWidth + 4,
-          height: linkHeight,
-        }, targetPage);
-      }
-
-      navX += textWidth;
-      if (i < navItems.length - 1) {
-        navX += font.widthOfTextAtSize('  |  ', navFontSize);
-      }
-    }
-  }
-}
-
-/**
- * Gets the week number for a date, using Sunday as the first day of the week.
- * This must match how weeks are generated in index.ts (weekStartsOn: 0).
- */
-export function getWeekNumber(date: Date): number {
-  // Use date-fns getWeek with weekStartsOn: 0 (Sunday) to match week generation
-  return getWeek(date, { weekStartsOn: 0 });
-}
-
-/**
- * Add links from monthly calendar dates to their corresponding daily pages.
- * This must be called after all pages are generated and the registry is built.
- */
-export function addMonthlyDateLinks(
-  pdfDoc: PDFDocument,
-  _font: PDFFont,
-  dims: Dimensions,
-  pageRefs: PageRef[],
-  registry: PageRegistry,
-  density: { lineHeight: number; fontSize: number }
-): void {
-  const { HEIGHT, padding } = dims;
-
-  // Get monthly page refs (calendar pages, not tasks pages)
-  const monthlyRefs = pageRefs.filter(ref => ref.type === 'monthly');
-  if (monthlyRefs.length === 0) return;
-
-  // Calculate layout parameters (must match bujo-monthly.ts)
-  const navHeight = 20;
-  const headerHeight = 25;
-  const navFontSize = 7;
-  const titleFontSize = 11;
-  const minLineHeight = Math.round(density.lineHeight * 0.7);
-  const preferredLineHeight = density.lineHeight;
-  const availableHeight = HEIGHT - padding.top - padding.bottom - navHeight - headerHeight - 10;
-
-  // Group monthly refs by yearMonth to handle multi-page months
-  const monthlyPagesByYearMonth = new Map<string, PageRef[]>();
-  for (const ref of monthlyRefs) {
-    if (!ref.yearMonth) continue;
-    const pages = monthlyPagesByYearMonth.get(ref.yearMonth) || [];
-    pages.push(ref);
-    monthlyPagesByYearMonth.set(ref.yearMonth, pages);
-  }
-
-  for (const [yearMonth, monthPages] of monthlyPagesByYearMonth) {
-    // Parse yearMonth to get the month info
-    const [yearStr, monthStr] = yearMonth.split('-');
-    const year = parseInt(yearStr);
-    const month = parseInt(monthStr) - 1; // 0-indexed
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-
-    // Calculate layout (same logic as bujo-monthly.ts)
-    const daysPerPage = Math.floor(availableHeight / minLineHeight);
-    const isSplitLayout = monthPages.length > 1 || (daysInMonth * preferredLineHeight > availableHeight);
-
-    if (isSplitLayout) {
-      // Multi-page layout: dates listed vertically
-      let dayIndex = 1;
-      for (const pageRef of monthPages) {
-        const page = pdfDoc.getPage(pageRef.pageIndex);
-
-        // Calculate contentTop (same as bujo-monthly.ts)
-        // drawTopNavigation returns: navY - navFontSize - 6
-        const navY = HEIGHT - padding.top - navFontSize - 2;
-        const navReturnY = navY - navFontSize - 6;
-        // drawPageTitle returns: startY - fontSize - 8
-        const contentTop = navReturnY - titleFontSize - 8;
-
-        // Days on this page
-        const daysOnThisPage = Math.min(daysPerPage, daysInMonth - dayIndex + 1);
-        const lineHeight = Math.max(minLineHeight, availableHeight / daysOnThisPage);
-
-        let y = contentTop;
-        for (let i = 0; i < daysOnThisPage && dayIndex <= daysInMonth; i++, dayIndex++) {
-          // Check if daily page exists for this date
-          const dateKey = `${year}-${String(month + 1).padStart(2, '0')}-${String(dayIndex).padStart(2, '0')}`;
-          const dailyPageIndex = registry.dailyPages.get(dateKey);
-
-          if (dailyPageIndex !== undefined) {
-            // Create link over the date number area
-            // Date is drawn at padding.left, day letter at padding.left + 18
-            createInternalLink(pdfDoc, page, {
-              x: padding.left - 2,
-              y: y - 2,
-              width: 28, // Covers date number and day letter
-              height: density.fontSize + 4,
-            }, dailyPageIndex);
-          }
-
-          y -= lineHeight;
-        }
-      }
-    } else {
-      // Single page side-by-side layout
-      const pageRef = monthPages[0];
-      const page = pdfDoc.getPage(pageRef.pageIndex);
-
-      // Calculate contentTop (same as bujo-monthly.ts)
-      const navY = HEIGHT - padding.top - navFontSize - 2;
-      const navReturnY = navY - navFontSize - 6;
-      const contentTop = navReturnY - titleFontSize - 8;
-
-      const lineHeight = Math.min(preferredLineHeight, (contentTop - padding.bottom - 10) / daysInMonth);
-
-      let y = contentTop;
-      for (let day = 1; day <= daysInMonth; day++) {
-        // Check if daily page exists for this date
-        const dateKey = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-        const dailyPageIndex = registry.dailyPages.get(dateKey);
-
-        if (dailyPageIndex !== undefined) {
-          // Create link over the date number area
-          createInternalLink(pdfDoc, page, {
-            x: padding.left - 2,
-            y: y - 2,
-            width: 28,
-            height: density.fontSize + 4,
-          }, dailyPageIndex);
-        }
-
-        y -= lineHeight;
-      }
-    }
-  }
+): number | undefined {
+  const { kind, key } = parseLinkTarget(target);
+  const item: NavItem = { label: '', targetType: kind as NavItem['targetType'], targetKey: key };
+  return resolveNavTarget(item, sourcePageIndex, registry);
 }
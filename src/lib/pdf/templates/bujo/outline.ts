@@ -0,0 +1,113 @@
+import { parse } from 'date-fns';
+import type { OutlineItem } from '../../outline';
+import type { PageRef, PageRegistry } from './types';
+import type { PlannerI18n } from '../../../i18n';
+
+// Pages grouped under one month in the outline
+interface MonthGroup {
+  calendars: PageRef[];
+  habits: PageRef[];
+  weeks: PageRef[];
+  days: PageRef[];
+}
+
+function buildMonthItem(
+  yearMonth: string,
+  group: MonthGroup,
+  registry: PageRegistry,
+  i18n: PlannerI18n
+): OutlineItem | undefined {
+  const { strings } = i18n;
+  const children: OutlineItem[] = [];
+
+  group.calendars.forEach((ref, i) => {
+    children.push({
+      title: group.calendars.length > 1 ? `${strings.calendar} ${i + 1}` : strings.calendar,
+      pageIndex: ref.pageIndex,
+    });
+  });
+
+  // On combined calendar/tasks pages the tasks entry would just repeat the calendar
+  const tasksPage = registry.monthlyTasksPages.get(yearMonth);
+  if (tasksPage !== undefined && !group.calendars.some((ref) => ref.pageIndex === tasksPage)) {
+    children.push({ title: strings.tasks, pageIndex: tasksPage });
+  }
+
+  group.habits.forEach((ref, i) => {
+    children.push({
+      title: group.habits.length > 1 ? `${strings.habitTracker} ${i + 1}` : strings.habitTracker,
+      pageIndex: ref.pageIndex,
+    });
+  });
+
+  for (const ref of [...group.weeks, ...group.days]) {
+    children.push({ title: ref.label, pageIndex: ref.pageIndex });
+  }
+
+  if (children.length === 0) return undefined;
+
+  return {
+    title: i18n.formatDate(parse(yearMonth, 'yyyy-MM', new Date()), strings.dates.monthYear),
+    // First calendar page, or the first week/day when there is no monthly log
+    pageIndex: children[0].pageIndex,
+    children,
+  };
+}
+
+/**
+ * Hierarchical outline for a bullet journal: Index, Key, year overviews, Future Log, then each
+ * month with its calendar/tasks pages, habit tracker, weeks and days, then Collections.
+ */
+export function buildBujoOutline(pageRefs: PageRef[], registry: PageRegistry, i18n: PlannerI18n): OutlineItem[] {
+  const { strings } = i18n;
+  const items: OutlineItem[] = [];
+
+  if (registry.indexPage >= 0) {
+    items.push({ title: strings.index, pageIndex: registry.indexPage });
+  }
+  if (registry.keyPage !== undefined) {
+    items.push({ title: strings.key, pageIndex: registry.keyPage });
+  }
+  for (const [year, pageIndex] of registry.yearPages) {
+    items.push({ title: year, pageIndex });
+  }
+  if (registry.futureLogPages.length > 0) {
+    items.push({ title: strings.futureLog, pageIndex: registry.futureLogPages[0] });
+  }
+
+  // Weeks belong to the month they start in
+  const months = new Map<string, MonthGroup>();
+  for (const ref of pageRefs) {
+    if (!ref.yearMonth || !['monthly', 'habits', 'weekly', 'daily'].includes(ref.type)) continue;
+
+    let group = months.get(ref.yearMonth);
+    if (!group) {
+      group = { calendars: [], habits: [], weeks: [], days: [] };
+      months.set(ref.yearMonth, group);
+    }
+    if (ref.type === 'monthly') group.calendars.push(ref);
+    if (ref.type === 'habits') group.habits.push(ref);
+    if (ref.type === 'weekly') group.weeks.push(ref);
+    if (ref.type === 'daily') group.days.push(ref);
+  }
+
+  const sortedMonths = [...months].sort(([a], [b]) => a.localeCompare(b));
+  for (const [yearMonth, group] of sortedMonths) {
+    const item = buildMonthItem(yearMonth, group, registry, i18n);
+    if (item) items.push(item);
+  }
+
+  if (registry.collectionPages.length > 0) {
+    items.push({
+      title: strings.collections,
+      pageIndex: registry.collectionPages[0],
+      // One entry per named collection, and one per untitled page
+      children: pageRefs
+        .filter((ref) => ref.type === 'collection'
+          && (ref.collection === undefined || registry.collectionGroups.get(ref.collection)?.[0] === ref.pageIndex))
+        .map((ref) => ({ title: ref.collection ?? ref.label, pageIndex: ref.pageIndex })),
+    });
+  }
+
+  return items;
+}
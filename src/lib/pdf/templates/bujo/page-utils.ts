@@ -1,129 +1,254 @@
-import { rgb } from 'pdf-lib';
+import { degrees, rgb } from 'pdf-lib';
 import type { PDFPage, PDFFont } from 'pdf-lib';
-import type { Dimensions, NavContext, PageType } from './types';
-import type { PageStyle, ColorScheme } from '../../../../types/planner';
+import type { BujoGeneratorContext, Dimensions, NavItem, PageRef } from './types';
+import type { LinkRecorder } from '../../link-recorder';
+import { recordLink } from '../../link-recorder';
+import { getBreadcrumbItems, navItemTarget } from './navigation';
+import { layoutArrow, layoutRect, layoutX, textX } from '../../direction';
+import type { PageStyle, ColorScheme, RGBColor } from '../../../../types/planner';
+
+const NAV_FONT_SIZE = 7;
+const MIN_NAV_FONT_SIZE = 5;
+const NAV_LINK_HEIGHT = 12;
+const NAV_SEPARATOR = '  |  ';
+const BREADCRUMB_SEPARATOR = '  ›  ';
+// Height of a breadcrumb line drawn below the nav bar
+export const BREADCRUMB_HEIGHT = NAV_FONT_SIZE + 6;
+// Width of the nav strip beside a left or right toolbar
+const NAV_STRIP_WIDTH = 14;
+// Room for a page title's ascent below the top padding when there's no nav bar above it
+const TITLE_CLEARANCE = 12;
 
 /**
- * Get nav labels for a page type based on what sections exist.
- * These must match what getNavItemsForPage() returns in navigation.ts.
- * Using full names instead of abbreviations for better readability.
+ * With the toolbar on the left or right, the nav bar runs down that side of
+ * the page instead of across the top, so the top is free for content.
  */
-export function getNavLabels(pageType: PageType, nav: NavContext): string[] {
-  const labels: string[] = [];
-
-  switch (pageType) {
-    case 'daily':
-      // Daily: Index | Future Log | Monthly | Tasks | Weekly
-      labels.push('Index');
-      if (nav.hasFutureLog) labels.push('Future Log');
-      if (nav.hasMonthlyLog) {
-        labels.push('Monthly');
-        labels.push('Tasks');
-      }
-      if (nav.hasWeeklyReview) labels.push('Weekly');
-      break;
+export function isVerticalNavigation(dims: Dimensions): boolean {
+  return dims.toolbarPosition === 'left' || dims.toolbarPosition === 'right';
+}
 
-    case 'weekly':
-      // Weekly: < | Index | Future Log | Monthly | Tasks | >
-      labels.push('<');
-      labels.push('Index');
-      if (nav.hasFutureLog) labels.push('Future Log');
-      if (nav.hasMonthlyLog) {
-        labels.push('Monthly');
-        labels.push('Tasks');
-      }
-      labels.push('>');
-      break;
+/**
+ * Make room for a vertical nav strip inside the padding on the toolbar's side.
+ */
+export function reserveNavigationStrip(dims: Dimensions): Dimensions {
+  if (!isVerticalNavigation(dims)) return dims;
+  const edge = dims.toolbarPosition as 'left' | 'right';
+  const padding = { ...dims.padding, [edge]: dims.padding[edge] + NAV_STRIP_WIDTH };
+  return { ...dims, padding, MARGIN: padding.left };
+}
 
-    case 'monthly':
-      // Monthly Calendar: < | Index | Future Log | Tasks | >
-      labels.push('<');
-      labels.push('Index');
-      if (nav.hasFutureLog) labels.push('Future Log');
-      labels.push('Tasks');
-      labels.push('>');
-      break;
+/**
+ * Draw the navigation bar with text links: across the top below padding.top,
+ * or down the toolbar's side (see isVerticalNavigation), clear of the device toolbar.
+ * Each item's hit-region is recorded with its symbolic target so links
+ * always line up with what was drawn.
+ * Returns the Y position content can start below.
+ */
+export function drawNavigation(
+  page: PDFPage,
+  font: PDFFont,
+  dims: Dimensions,
+  colors: ColorScheme,
+  navItems: NavItem[],
+  links: LinkRecorder,
+  separator: string = NAV_SEPARATOR
+): number {
+  if (isVerticalNavigation(dims)) {
+    drawVerticalNavigation(page, font, dims, colors, navItems, links, separator);
+    return dims.HEIGHT - dims.padding.top - TITLE_CLEARANCE;
+  }
 
-    case 'monthly-tasks':
-      // Monthly Tasks: < | Index | Future Log | Calendar | >
-      labels.push('<');
-      labels.push('Index');
-      if (nav.hasFutureLog) labels.push('Future Log');
-      labels.push('Calendar');
-      labels.push('>');
-      break;
+  // Position below the top padding area (where toolbar would be)
+  const navY = dims.HEIGHT - dims.padding.top - NAV_FONT_SIZE - 2;
+  drawLinkRow(page, font, dims, colors, navItems, links, navY, separator);
+  return navY - NAV_FONT_SIZE - 6;
+}
 
-    case 'future':
-      // Future Log: Index (arrows added by nav system if multi-page)
-      labels.push('Index');
-      break;
+/**
+ * Draw a breadcrumb ('2026 › March › W10 › Tue 4') as a row of links at y,
+ * e.g. below the nav bar. Returns the Y position below it.
+ */
+export function drawBreadcrumb(
+  page: PDFPage,
+  font: PDFFont,
+  dims: Dimensions,
+  colors: ColorScheme,
+  items: NavItem[],
+  links: LinkRecorder,
+  y: number
+): number {
+  drawLinkRow(page, font, dims, colors, items, links, y, BREADCRUMB_SEPARATOR);
+  return y - BREADCRUMB_HEIGHT;
+}
 
-    case 'key':
-      // Key: Index | Future Log
-      labels.push('Index');
-      if (nav.hasFutureLog) labels.push('Future Log');
-      break;
+/**
+ * Nav bar for a monthly, weekly or daily page, with the page's breadcrumb
+ * (see getBreadcrumbItems) below it or in its place, as ctx.breadcrumbs says.
+ * Returns the Y position content can start below.
+ */
+export function drawDatedNavigation(
+  page: PDFPage,
+  ctx: BujoGeneratorContext,
+  navItems: NavItem[],
+  ref: Pick<PageRef, 'type' | 'date' | 'yearMonth' | 'weekIndex' | 'weekKey'>
+): number {
+  const { font, dims, colors, links, breadcrumbs, i18n } = ctx;
+  if (breadcrumbs === 'none') return drawNavigation(page, font, dims, colors, navItems, links);
 
-    case 'collection':
-      // Collection: < | Index | >
-      labels.push('<');
-      labels.push('Index');
-      labels.push('>');
-      break;
+  const crumbs = getBreadcrumbItems(ref, i18n);
+  if (breadcrumbs === 'replace-nav') {
+    return drawNavigation(page, font, dims, colors, crumbs, links, BREADCRUMB_SEPARATOR);
+  }
+  const navY = drawNavigation(page, font, dims, colors, navItems, links);
+  return drawBreadcrumb(page, font, dims, colors, crumbs, links, navY);
+}
 
-    case 'index':
-      // Index: Future Log (if exists)
-      if (nav.hasFutureLog) labels.push('Future Log');
-      break;
+/**
+ * Font size and labels for a line of nav items that has to fit in length:
+ * the usual size when it fits, else smaller down to MIN_NAV_FONT_SIZE, and
+ * then with the labels shortened to share the room evenly.
+ */
+function fitNavLine(font: PDFFont, labels: string[], separator: string, length: number): { size: number; labels: string[] } {
+  const lineWidth = (size: number) =>
+    labels.reduce((width, label) => width + font.widthOfTextAtSize(label, size), 0)
+    + Math.max(0, labels.length - 1) * font.widthOfTextAtSize(separator, size);
+
+  const naturalWidth = lineWidth(NAV_FONT_SIZE);
+  if (naturalWidth <= length) return { size: NAV_FONT_SIZE, labels };
+
+  const size = Math.max(MIN_NAV_FONT_SIZE, Math.floor((NAV_FONT_SIZE * length / naturalWidth) * 10) / 10);
+  if (lineWidth(size) <= length) return { size, labels };
+
+  // Labels narrower than an even share keep their width, and the room they
+  // leave over goes to the longer ones
+  let room = length - Math.max(0, labels.length - 1) * font.widthOfTextAtSize(separator, size);
+  let share = 0;
+  const widths = labels.map((label) => font.widthOfTextAtSize(label, size)).sort((a, b) => a - b);
+  for (let i = 0; i < widths.length; i++) {
+    share = Math.max(0, room / (widths.length - i));
+    if (widths[i] > share) break;
+    room -= widths[i];
   }
+  return { size, labels: labels.map((label) => fitText(label, font, size, share)) };
+}
+
+/**
+ * Items left to right (right to left for RTL planners) on one line, with separators between them.
+ * Lines too long for the page are shrunk to fit (see fitNavLine).
+ */
+function drawLinkRow(
+  page: PDFPage,
+  font: PDFFont,
+  dims: Dimensions,
+  colors: ColorScheme,
+  items: NavItem[],
+  links: LinkRecorder,
+  y: number,
+  separator: string
+): void {
+  const navColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const separatorColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+  const separatorLabel = layoutArrow(dims, separator);
+  const { size, labels } = fitNavLine(
+    font,
+    items.map((item) => layoutArrow(dims, item.label)),
+    separatorLabel,
+    dims.WIDTH - dims.padding.left - dims.padding.right
+  );
+  const separatorWidth = font.widthOfTextAtSize(separatorLabel, size);
+
+  let navX = dims.padding.left;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const label = labels[i];
+    const textWidth = font.widthOfTextAtSize(label, size);
+
+    page.drawText(label, {
+      x: layoutX(dims, navX, textWidth),
+      y,
+      size,
+      font,
+      color: navColor,
+    });
+    recordLink(links, page, layoutRect(dims, {
+      x: navX - 2,
+      y: y - 3,
+      width: textWidth + 4,
+      height: NAV_LINK_HEIGHT,
+    }), navItemTarget(item));
+    navX += textWidth;
 
-  return labels;
+    if (i < items.length - 1) {
+      page.drawText(separatorLabel, {
+        x: layoutX(dims, navX, separatorWidth),
+        y,
+        size,
+        font,
+        color: separatorColor,
+      });
+      navX += separatorWidth;
+    }
+  }
 }
 
 /**
- * Draw top navigation bar with text links.
- * Returns the Y position below the navigation.
- * Accounts for reMarkable toolbar by using padding.top.
+ * Nav items top to bottom in the strip reserved by reserveNavigationStrip,
+ * read downwards. '<' then points up to the previous page in any language.
+ * Like the nav bar, the strip is shrunk to fit the page's height.
  */
-export function drawTopNavigation(
+function drawVerticalNavigation(
   page: PDFPage,
   font: PDFFont,
   dims: Dimensions,
   colors: ColorScheme,
-  navItems: string[] = ['Index']
-): number {
-  const { HEIGHT, padding } = dims;
-  const navFontSize = 7;
-  // Position below the top padding area (where toolbar would be)
-  const navY = HEIGHT - padding.top - navFontSize - 2;
+  navItems: NavItem[],
+  links: LinkRecorder,
+  separator: string
+): void {
+  const { WIDTH, HEIGHT, padding } = dims;
+  const { size, labels } = fitNavLine(font, navItems.map((item) => item.label), separator, HEIGHT - padding.top - padding.bottom);
+  const stripX = dims.toolbarPosition === 'left' ? padding.left - NAV_STRIP_WIDTH : WIDTH - padding.right;
+  // Rotated a quarter turn clockwise, glyphs rise towards +x from the baseline
+  const baselineX = stripX + (NAV_STRIP_WIDTH - font.heightAtSize(size, { descender: false })) / 2;
   const navColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
   const separatorColor = rgb(colors.line.r, colors.line.g, colors.line.b);
 
-  let navX = padding.left;
+  let navY = HEIGHT - padding.top;
 
   for (let i = 0; i < navItems.length; i++) {
-    page.drawText(navItems[i], {
-      x: navX,
+    const item = navItems[i];
+    const label = labels[i];
+    const textWidth = font.widthOfTextAtSize(label, size);
+
+    page.drawText(label, {
+      x: baselineX,
       y: navY,
-      size: navFontSize,
+      size,
       font,
       color: navColor,
+      rotate: degrees(-90),
     });
-    navX += font.widthOfTextAtSize(navItems[i], navFontSize);
+    recordLink(links, page, {
+      x: stripX,
+      y: navY - textWidth - 2,
+      width: NAV_STRIP_WIDTH,
+      height: textWidth + 4,
+    }, navItemTarget(item));
+    navY -= textWidth;
 
     if (i < navItems.length - 1) {
-      page.drawText('  |  ', {
-        x: navX,
+      page.drawText(separator, {
+        x: baselineX,
         y: navY,
-        size: navFontSize,
+        size,
         font,
         color: separatorColor,
+        rotate: degrees(-90),
       });
-      navX += font.widthOfTextAtSize('  |  ', navFontSize);
+      navY -= font.widthOfTextAtSize(separator, size);
     }
   }
-
-  return navY - navFontSize - 6;
 }
 
 /**
@@ -137,13 +262,14 @@ export function drawPageTitle(
   dims: Dimensions,
   colors: ColorScheme,
   startY: number,
-  fontSize: number = 10
+  fontSize: number = 10,
+  color: RGBColor = colors.text
 ): number {
   const { padding } = dims;
-  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
+  const textColor = rgb(color.r, color.g, color.b);
 
   page.drawText(title, {
-    x: padding.left,
+    x: textX(dims, padding.left, title, font, fontSize),
     y: startY,
     size: fontSize,
     font,
@@ -153,6 +279,18 @@ export function drawPageTitle(
   return startY - fontSize - 8;
 }
 
+/**
+ * Shorten text with an ellipsis until it fits maxWidth.
+ */
+export function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return fitted.length > 0 ? `${fitted.trimEnd()}…` : '';
+}
+
 /**
  * Draw dotgrid background.
  */
@@ -0,0 +1,146 @@
+import { degrees, rgb } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import type { BujoGeneratorContext, Dimensions, SideTabs } from './types';
+import { linkTarget, recordLink } from '../../link-recorder';
+import { getSectionColors } from '../../../themes';
+
+const TAB_WIDTH = 16;
+const TAB_GAP = 4;       // Between the strip and the page content
+const TAB_SPACING = 1;   // Between neighbouring tabs
+const GROUP_SPACING = 6; // Between the quarter and month tabs
+const MAX_TAB_HEIGHT = 36;
+const TAB_FONT_SIZE = 6;
+const MONTHS_PER_STRIP = 12;
+
+interface Tab {
+  label: string;
+  target: string;
+  current: boolean;
+  month?: number; // Months are highlighted in their section accent
+}
+
+/**
+ * The strip goes on the right edge (left for right-to-left planners),
+ * or the opposite edge when the toolbar is there.
+ */
+export function getSideTabEdge(dims: Dimensions): 'left' | 'right' {
+  const preferred = dims.rtl ? 'left' : 'right';
+  if (dims.toolbarPosition !== preferred) return preferred;
+  return preferred === 'right' ? 'left' : 'right';
+}
+
+/**
+ * Widen the padding on the tab edge, if needed, so content stays clear of the strip.
+ */
+export function reserveSideTabs(dims: Dimensions, edge: 'left' | 'right'): Dimensions {
+  const padding = { ...dims.padding, [edge]: Math.max(dims.padding[edge], TAB_WIDTH + TAB_GAP) };
+  return { ...dims, padding, MARGIN: padding.left };
+}
+
+function monthOf(yearMonth: string): number {
+  return Number(yearMonth.slice(5)) - 1;
+}
+
+/**
+ * Tabs for the 12-month stretch of the planner that yearMonth falls in.
+ * Pages before the first month (a week that starts in December) get the first stretch.
+ */
+function buildTabs(ctx: BujoGeneratorContext, sideTabs: SideTabs, yearMonth: string): Tab[] {
+  const { nav, i18n } = ctx;
+  const { months } = sideTabs;
+
+  const index = months.indexOf(yearMonth);
+  const strip = index >= 0
+    ? Math.floor(index / MONTHS_PER_STRIP)
+    : yearMonth < months[0] ? 0 : Math.floor((months.length - 1) / MONTHS_PER_STRIP);
+  const stripMonths = months.slice(strip * MONTHS_PER_STRIP, (strip + 1) * MONTHS_PER_STRIP);
+  const tabs: Tab[] = [];
+
+  if (sideTabs.quarters) {
+    tabs.push({
+      label: stripMonths[0].slice(0, 4),
+      target: nav.hasYearOverview
+        ? linkTarget('year', stripMonths[0].slice(0, 4))
+        : nav.hasFutureLog ? 'future' : 'index',
+      current: false,
+    });
+
+    // Calendar quarters in the order the stretch reaches them, linked to their first month
+    const currentQuarter = Math.floor(monthOf(yearMonth) / 3);
+    const seen = new Set<string>();
+    for (const key of stripMonths) {
+      const quarter = Math.floor(monthOf(key) / 3);
+      const quarterKey = `${key.slice(0, 4)}-${quarter}`;
+      if (seen.has(quarterKey)) continue;
+      seen.add(quarterKey);
+      tabs.push({
+        label: i18n.strings.quarter(quarter + 1),
+        target: linkTarget('monthly', key),
+        current: quarter === currentQuarter && key.slice(0, 4) === yearMonth.slice(0, 4),
+      });
+    }
+  }
+
+  for (const key of stripMonths) {
+    const month = monthOf(key);
+    tabs.push({
+      label: i18n.formatDate(new Date(Number(key.slice(0, 4)), month, 1), i18n.strings.dates.shortMonth),
+      target: linkTarget('monthly', key),
+      current: key === yearMonth,
+      month,
+    });
+  }
+
+  return tabs;
+}
+
+/**
+ * Draw the month tab strip along the page edge, highlighting yearMonth.
+ * Each tab links to that month's calendar page. Does nothing if side tabs are off.
+ */
+export function drawSideTabs(page: PDFPage, ctx: BujoGeneratorContext, yearMonth: string): void {
+  const { sideTabs, dims, colors, font, fontBold, links } = ctx;
+  if (!sideTabs || sideTabs.months.length === 0) return;
+
+  const tabs = buildTabs(ctx, sideTabs, yearMonth);
+  const monthCount = tabs.filter((tab) => tab.month !== undefined).length;
+  const groupSpacing = tabs.length > monthCount ? GROUP_SPACING : 0;
+
+  const top = dims.HEIGHT - dims.padding.top;
+  const available = top - dims.padding.bottom - groupSpacing - (tabs.length - 1) * TAB_SPACING;
+  const tabHeight = Math.min(MAX_TAB_HEIGHT, available / tabs.length);
+  const x = sideTabs.edge === 'right' ? dims.WIDTH - TAB_WIDTH : 0;
+
+  let y = top;
+  tabs.forEach((tab, i) => {
+    if (i > 0 && tab.month !== undefined && tabs[i - 1].month === undefined) y -= groupSpacing;
+    y -= tabHeight;
+
+    const accent = tab.month !== undefined ? getSectionColors(colors, tab.month).accent : colors.line;
+    const fill = tab.current ? accent : colors.lineFaint;
+    const textColor = tab.current && tab.month !== undefined ? colors.background : tab.current ? colors.text : colors.textMuted;
+    page.drawRectangle({ x, y, width: TAB_WIDTH, height: tabHeight, color: rgb(fill.r, fill.g, fill.b) });
+
+    // Labels run along the edge, reading from the top on the right and from the bottom on the left
+    const tabFont = tab.current ? fontBold : font;
+    const width = tabFont.widthOfTextAtSize(tab.label, TAB_FONT_SIZE);
+    const size = Math.min(TAB_FONT_SIZE, (TAB_FONT_SIZE * (tabHeight - 4)) / width);
+    const textWidth = tabFont.widthOfTextAtSize(tab.label, size);
+    const capHeight = tabFont.heightAtSize(size, { descender: false });
+    const centerX = x + TAB_WIDTH / 2;
+    const centerY = y + tabHeight / 2;
+    const right = sideTabs.edge === 'right';
+
+    page.drawText(tab.label, {
+      x: right ? centerX - capHeight / 2 : centerX + capHeight / 2,
+      y: right ? centerY + textWidth / 2 : centerY - textWidth / 2,
+      size,
+      font: tabFont,
+      color: rgb(textColor.r, textColor.g, textColor.b),
+      rotate: degrees(right ? -90 : 90),
+    });
+    recordLink(links, page, { x, y, width: TAB_WIDTH, height: tabHeight }, tab.target);
+
+    y -= TAB_SPACING;
+  });
+}
@@ -1,29 +1,23 @@
 import type { PDFDocument, PDFFont } from 'pdf-lib';
-import type { DensityConfig, PageStyle, ColorScheme } from '../../../../types/planner';
+import type { BreadcrumbMode, BujoNavPage, DensityConfig, NavItemKind, PageStyle, ColorScheme } from '../../../../types/planner';
+import type { PageType, Dimensions } from '../types';
+import type { LinkRecorder } from '../../link-recorder';
+import type { WeekOptions } from '../weeks';
+import type { PlannerI18n } from '../../../i18n';
 
-export type PageType = 'key' | 'future' | 'monthly' | 'monthly-tasks' | 'weekly' | 'daily' | 'collection' | 'index';
-
-export interface PageRef {
-  label: string;
-  pageIndex: number;
-  type: PageType;
-  // Relationship fields for navigation
-  date?: Date;              // For daily/weekly pages - the date they represent
-  monthIndex?: number;      // Which month (0-11) this page belongs to
-  weekIndex?: number;       // Which week of the year this page belongs to
-  yearMonth?: string;       // 'YYYY-MM' key for monthly lookups
-}
+export type { PageType, PageRef, Dimensions } from '../types';
 
 /**
- * Navigation item for top nav bar.
- * label: display text (e.g., 'Idx', 'FL', 'Mon')
+ * Navigation item for the nav bar.
+ * label: display text (e.g., 'Index', 'Future Log', 'Mar')
  * targetType: what page type to link to (resolved via registry)
- * targetKey: optional key for looking up specific page (e.g., month key)
+ * targetKey: optional key for looking up specific page (e.g., month key),
+ *            or the page type to step through for prev/next
  */
 export interface NavItem {
   label: string;
-  targetType: 'index' | 'future' | 'monthly' | 'monthly-tasks' | 'weekly' | 'prev' | 'next';
-  targetKey?: string; // For month-specific or week-specific lookups
+  targetType: Exclude<PageType, 'page'> | 'prev' | 'next';
+  targetKey?: string; // For month-specific, week-specific or day-specific lookups
 }
 
 /**
@@ -32,47 +26,50 @@ export interface NavItem {
  */
 export interface PageRegistry {
   indexPage: number;
+  yearPages: Map<string, number>;        // 'YYYY' → year overview page index
   futureLogPages: number[];     // All future log pages
   monthlyCalPages: Map<string, number>;  // 'YYYY-MM' → calendar page index
   monthlyTasksPages: Map<string, number>; // 'YYYY-MM' → tasks page index
-  weeklyPages: Map<number, number>;      // weekIndex → page index
+  habitPages: Map<string, number>;       // 'YYYY-MM' → habit tracker page index
+  weeklyPages: Map<string, number>;      // weekKey ('YYYY-MM-DD' week start) → page index
   dailyPages: Map<string, number>;       // 'YYYY-MM-DD' → page index
   collectionPages: number[];    // All collection page indices
+  collectionGroups: Map<string, number[]>; // Collection name ('' for untitled pages) → its page indices
   keyPage?: number;             // Key page if exists
 
   // For prev/next navigation
   pagesByType: Map<PageType, number[]>; // Ordered page indices by type
 }
 
-export interface Dimensions {
-  WIDTH: number;
-  HEIGHT: number;
-  MARGIN: number;
-  TOOLBAR_HEIGHT: number; // Extra top margin for reMarkable toolbar (legacy)
-  // New padding system - padding on each side
-  padding: {
-    top: number;
-    bottom: number;
-    left: number;
-    right: number;
-  };
-  toolbarPosition: 'top' | 'bottom' | 'left' | 'right';
-}
-
 /**
  * Tells page generators which sections will exist (for nav rendering).
  */
 export interface NavContext {
+  hasKey: boolean;
+  hasYearOverview: boolean;
   hasFutureLog: boolean;
   hasMonthlyLog: boolean;
+  hasHabitTracker: boolean;
   hasWeeklyReview: boolean;
   hasDailyLog: boolean;
+  hasCollections: boolean;
+  items: Record<BujoNavPage, NavItemKind[]>; // The nav bar links each page type asks for
+}
+
+/**
+ * Month tab strip drawn along one page edge.
+ */
+export interface SideTabs {
+  edge: 'left' | 'right';
+  months: string[];  // 'YYYY-MM' of every month with a calendar page
+  quarters: boolean; // Year and quarter tabs above the months
 }
 
 export interface BujoGeneratorContext {
   pdfDoc: PDFDocument;
   font: PDFFont;
   fontBold: PDFFont;
+  fontHeading: PDFFont;
   dims: Dimensions;
   density: DensityConfig;
   dailyPageStyle: PageStyle;
@@ -80,4 +77,9 @@ export interface BujoGeneratorContext {
   dotSpacing: number;
   nav: NavContext;
   colors: ColorScheme;
+  links: LinkRecorder;
+  weeks: WeekOptions;
+  i18n: PlannerI18n;
+  sideTabs?: SideTabs; // Unset when side tabs are off
+  breadcrumbs: BreadcrumbMode;
 }
@@ -0,0 +1,50 @@
+import type { PlannerConfig, TemplateOptionValue } from '../../../types/planner';
+import type { PlannerTemplate } from './types';
+
+/**
+ * Read a template option from the config, falling back to the template's default.
+ */
+export function getTemplateOption<T extends TemplateOptionValue>(
+  config: PlannerConfig,
+  template: PlannerTemplate,
+  key: string
+): T {
+  const value = config.templateOptions?.[key];
+  if (value !== undefined) {
+    return value as T;
+  }
+  const field = template.options?.find((o) => o.key === key);
+  if (!field) {
+    throw new Error(`Template "${template.id}" has no option "${key}"`);
+  }
+  return field.default as T;
+}
+
+/**
+ * Fill in the template's defaults for any settings the config doesn't have yet.
+ * Used when switching planner type so existing choices are kept.
+ */
+export function applyTemplateDefaults(config: PlannerConfig, template: PlannerTemplate): PlannerConfig {
+  const next: PlannerConfig = { ...config, type: template.id };
+
+  if (template.defaults) {
+    for (const [key, value] of Object.entries(template.defaults)) {
+      const field = key as keyof PlannerConfig;
+      if (next[field] === undefined) {
+        (next as unknown as Record<string, unknown>)[field] = value;
+      }
+    }
+  }
+
+  if (template.options) {
+    const templateOptions = { ...config.templateOptions };
+    for (const option of template.options) {
+      if (templateOptions[option.key] === undefined) {
+        templateOptions[option.key] = option.default;
+      }
+    }
+    next.templateOptions = templateOptions;
+  }
+
+  return next;
+}
@@ -0,0 +1,40 @@
+import type { PlannerType } from '../../../types/planner';
+import type { PlannerTemplate } from './types';
+import { bujoTemplate } from './bujo';
+import { dailyTemplate } from './standard/daily';
+import { weeklyTemplate } from './standard/weekly';
+import { monthlyTemplate } from './standard/monthly';
+import { dotGridTemplate, linedTemplate, blankTemplate } from './standard/paper';
+
+const templates = new Map<PlannerType, PlannerTemplate>();
+
+/**
+ * Register a planner template. Templates appear in the form in registration
+ * order; registering an existing id replaces that template.
+ */
+export function registerTemplate(template: PlannerTemplate): void {
+  templates.set(template.id, template);
+}
+
+export function getTemplate(id: PlannerType): PlannerTemplate {
+  const template = templates.get(id);
+  if (!template) {
+    throw new Error(`Unknown planner type: ${id}`);
+  }
+  return template;
+}
+
+export function getTemplates(): PlannerTemplate[] {
+  return [...templates.values()];
+}
+
+// Built-in templates
+[
+  bujoTemplate,
+  dailyTemplate,
+  weeklyTemplate,
+  monthlyTemplate,
+  dotGridTemplate,
+  linedTemplate,
+  blankTemplate,
+].forEach(registerTemplate);
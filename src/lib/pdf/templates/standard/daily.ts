@@ -0,0 +1,119 @@
+import { rgb } from 'pdf-lib';
+import { eachDayOfInterval } from 'date-fns';
+import type { PageRef, PlannerTemplate, TemplateContext } from '../types';
+import { drawDarkModeBackground } from '../bujo/page-utils';
+import { layoutX, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
+
+export function generateDailyPages(ctx: TemplateContext): PageRef[] {
+  const { pdfDoc, config, font, fontHeading, dims, colors, i18n, reportProgress } = ctx;
+  const { dates } = i18n.strings;
+  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
+  const days = eachDayOfInterval({ start: config.startDate, end: config.endDate });
+  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
+
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+  const lineFaintColor = rgb(colors.lineFaint.r, colors.lineFaint.g, colors.lineFaint.b);
+
+  const pageRefs: PageRef[] = [];
+
+  for (const day of days) {
+    const dayOfWeek = day.getDay();
+    if (!config.includeWeekends && (dayOfWeek === 0 || dayOfWeek === 6)) {
+      continue;
+    }
+
+    reportProgress('Daily pages');
+    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+    drawDarkModeBackground(page, dims, colors);
+    const pageIndex = pdfDoc.getPageCount() - 1;
+    pageRefs.push({ label: i18n.formatDate(day, dates.dayLabel), pageIndex, type: 'daily', date: day });
+
+    // Draw header in the month's accent
+    const dateText = i18n.formatDate(day, dates.fullDate);
+    const { accent } = getSectionColors(colors, day.getMonth());
+    page.drawText(dateText, {
+      x: textX(dims, MARGIN, dateText, fontHeading, 14),
+      y: topY - 16,
+      size: 14,
+      font: fontHeading,
+      color: rgb(accent.r, accent.g, accent.b),
+    });
+
+    // Draw time slots; landscape splits the day into two columns, shrinking slots to fit
+    const hours = config.timeEnd - config.timeStart + 1;
+    const columns = dims.landscape ? 2 : 1;
+    const hoursPerColumn = Math.ceil(hours / columns);
+    const slotsPerHour = config.timeInterval === 30 ? 2 : 1;
+    const columnGap = 16;
+    const columnWidth = (WIDTH - 2 * MARGIN - columnGap * (columns - 1)) / columns;
+    const slotHeight = dims.landscape
+      ? Math.min(24, (topY - 50 - MARGIN) / (hoursPerColumn * slotsPerHour))
+      : 24;
+
+    for (let hour = config.timeStart; hour <= config.timeEnd; hour++) {
+      const slot = hour - config.timeStart;
+      const left = MARGIN + Math.floor(slot / hoursPerColumn) * (columnWidth + columnGap);
+      const right = left + columnWidth;
+      let y = topY - 50 - (slot % hoursPerColumn) * slotHeight * slotsPerHour;
+      const timeText = i18n.formatDate(new Date(2000, 0, 1, hour), dates.time);
+
+      page.drawText(timeText, {
+        x: textX(dims, left, timeText, font, 10),
+        y: y,
+        size: 10,
+        font,
+        color: mutedColor,
+      });
+
+      // Draw line
+      page.drawLine({
+        start: { x: layoutX(dims, left + 60), y: y + 4 },
+        end: { x: layoutX(dims, right), y: y + 4 },
+        thickness: 0.5,
+        color: lineColor,
+      });
+
+      y -= slotHeight;
+
+      if (config.timeInterval === 30 && hour < config.timeEnd) {
+        page.drawLine({
+          start: { x: layoutX(dims, left + 60), y: y + 4 },
+          end: { x: layoutX(dims, right), y: y + 4 },
+          thickness: 0.25,
+          color: lineFaintColor,
+          dashArray: [2, 2],
+        });
+      }
+    }
+
+    // Page number
+    if (config.pageNumbers) {
+      const pageNumber = `${pageIndex + 1}`;
+      page.drawText(pageNumber, {
+        x: textX(dims, WIDTH - MARGIN - 20, pageNumber, font, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font,
+        color: mutedColor,
+      });
+    }
+  }
+
+  return pageRefs;
+}
+
+export const dailyTemplate: PlannerTemplate = {
+  id: 'daily',
+  label: 'Daily Planner',
+  description: 'Hourly time slots for each day',
+  coverTitle: 'Daily Planner',
+  features: { dateRange: true, timeSlots: true, navigation: true },
+  estimatePageCount: (config) =>
+    eachDayOfInterval({ start: config.startDate, end: config.endDate }).filter((day) => {
+      const dayOfWeek = day.getDay();
+      return config.includeWeekends || (dayOfWeek !== 0 && dayOfWeek !== 6);
+    }).length,
+  generate: generateDailyPages,
+};
@@ -0,0 +1,137 @@
+import { rgb } from 'pdf-lib';
+import { eachMonthOfInterval } from 'date-fns';
+import type { PageRef, PlannerTemplate, TemplateContext } from '../types';
+import { drawDarkModeBackground } from '../bujo/page-utils';
+import { layoutX, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
+import { getWeekOptions, getWeekdayOrder } from '../weeks';
+
+export function generateMonthlyPages(ctx: TemplateContext): PageRef[] {
+  const { pdfDoc, config, font, fontBold, fontHeading, dims, colors, i18n, reportProgress } = ctx;
+  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
+  const months = eachMonthOfInterval({ start: config.startDate, end: config.endDate });
+  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
+  const weekOptions = getWeekOptions(config);
+  const weekdayOrder = getWeekdayOrder(weekOptions);
+
+  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+
+  const pageRefs: PageRef[] = [];
+
+  for (const monthStart of months) {
+    reportProgress('Monthly pages');
+    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+    drawDarkModeBackground(page, dims, colors);
+    const pageIndex = pdfDoc.getPageCount() - 1;
+    const monthTitle = i18n.formatDate(monthStart, i18n.strings.dates.monthYear);
+    pageRefs.push({
+      label: monthTitle,
+      pageIndex,
+      type: 'monthly',
+      date: monthStart,
+      monthIndex: monthStart.getMonth(),
+    });
+
+    // Header
+    page.drawText(monthTitle, {
+      x: textX(dims, MARGIN, monthTitle, fontHeading, 16),
+      y: topY - 16,
+      size: 16,
+      font: fontHeading,
+      color: textColor,
+    });
+
+    // Calendar grid
+    const colWidth = (WIDTH - 2 * MARGIN) / 7;
+    const availableHeight = topY - MARGIN - 80;
+    const rowHeight = Math.min(60, availableHeight / 6); // Scale for smaller devices
+
+    // Day headers in the month's accent, weekends muted
+    const { accent } = getSectionColors(colors, monthStart.getMonth());
+    const accentColor = rgb(accent.r, accent.g, accent.b);
+    for (let i = 0; i < 7; i++) {
+      const dayName = i18n.weekdayName(weekdayOrder[i], 'abbreviated');
+      const isWeekend = weekdayOrder[i] === 0 || weekdayOrder[i] === 6;
+      page.drawText(dayName, {
+        x: layoutX(dims, MARGIN + i * colWidth + colWidth / 2 - 10, 20),
+        y: topY - 45,
+        size: 9,
+        font: fontBold,
+        color: isWeekend ? mutedColor : accentColor,
+      });
+    }
+
+    // Get days in month
+    const year = monthStart.getFullYear();
+    const month = monthStart.getMonth();
+    // Column of the 1st, counted from the configured first day of the week
+    const firstDay = (new Date(year, month, 1).getDay() - weekOptions.weekStartsOn + 7) % 7;
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+    let day = 1;
+    for (let row = 0; row < 6 && day <= daysInMonth; row++) {
+      const y = topY - 60 - row * rowHeight;
+
+      // Draw horizontal line
+      page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: WIDTH - MARGIN, y },
+        thickness: 0.5,
+        color: lineColor,
+      });
+
+      for (let col = 0; col < 7; col++) {
+        const x = MARGIN + col * colWidth;
+
+        // Draw vertical line
+        if (row === 0) {
+          page.drawLine({
+            start: { x: layoutX(dims, x), y: topY - 55 },
+            end: { x: layoutX(dims, x), y: topY - 60 - 6 * rowHeight },
+            thickness: 0.5,
+            color: lineColor,
+          });
+        }
+
+        if ((row === 0 && col >= firstDay) || row > 0) {
+          if (day <= daysInMonth) {
+            const dayText = `${day}`;
+            page.drawText(dayText, {
+              x: textX(dims, x + 4, dayText, font, 10),
+              y: y - 14,
+              size: 10,
+              font,
+              color: textColor,
+            });
+            day++;
+          }
+        }
+      }
+    }
+
+    if (config.pageNumbers) {
+      const pageNumber = `${pageIndex + 1}`;
+      page.drawText(pageNumber, {
+        x: textX(dims, WIDTH - MARGIN - 20, pageNumber, font, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font,
+        color: mutedColor,
+      });
+    }
+  }
+
+  return pageRefs;
+}
+
+export const monthlyTemplate: PlannerTemplate = {
+  id: 'monthly',
+  label: 'Monthly Calendar',
+  description: 'Traditional calendar grid',
+  coverTitle: 'Monthly Planner',
+  features: { dateRange: true, timeSlots: false, navigation: true },
+  estimatePageCount: (config) => eachMonthOfInterval({ start: config.startDate, end: config.endDate }).length,
+  generate: generateMonthlyPages,
+};
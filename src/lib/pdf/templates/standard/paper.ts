@@ -0,0 +1,100 @@
+import { rgb } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import type { PageRef, PlannerTemplate, TemplateContext, TemplateOptionField } from '../types';
+import { drawDarkModeBackground } from '../bujo/page-utils';
+import { getTemplateOption } from '../options';
+
+const PAGE_COUNT_OPTION: TemplateOptionField = {
+  key: 'pageCount',
+  label: 'Number of pages',
+  type: 'number',
+  default: 50,
+  min: 1,
+  max: 500,
+};
+
+type PaperPainter = (page: PDFPage, ctx: TemplateContext) => void;
+
+function generatePaperPages(ctx: TemplateContext, template: PlannerTemplate, paint: PaperPainter): PageRef[] {
+  const { pdfDoc, config, dims, colors, i18n, reportProgress } = ctx;
+  const { WIDTH, HEIGHT } = dims;
+  const count = getTemplateOption<number>(config, template, 'pageCount');
+  const pageRefs: PageRef[] = [];
+
+  for (let i = 0; i < count; i++) {
+    reportProgress('Pages');
+    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+    drawDarkModeBackground(page, dims, colors);
+    paint(page, ctx);
+    pageRefs.push({ label: i18n.strings.page(i + 1), pageIndex: pdfDoc.getPageCount() - 1, type: 'page' });
+  }
+
+  return pageRefs;
+}
+
+function paintDotGrid(page: PDFPage, { dims, colors }: TemplateContext): void {
+  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
+  const dotSpacing = 14; // ~5mm at 72 DPI
+  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
+  const dotColor = rgb(colors.dot.r, colors.dot.g, colors.dot.b);
+
+  for (let x = MARGIN; x <= WIDTH - MARGIN; x += dotSpacing) {
+    for (let y = MARGIN; y <= topY; y += dotSpacing) {
+      page.drawCircle({
+        x,
+        y,
+        size: 0.5,
+        color: dotColor,
+      });
+    }
+  }
+}
+
+function paintLined(page: PDFPage, { dims, colors }: TemplateContext): void {
+  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
+  const lineSpacing = 24; // College ruled
+  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+
+  for (let y = topY - lineSpacing; y >= MARGIN; y -= lineSpacing) {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: lineColor,
+    });
+  }
+}
+
+export const dotGridTemplate: PlannerTemplate = {
+  id: 'dotgrid',
+  label: 'Dot Grid',
+  description: 'Pages of dot grid paper',
+  coverTitle: 'Dot Grid Notebook',
+  features: { dateRange: false, timeSlots: false, navigation: false },
+  options: [PAGE_COUNT_OPTION],
+  estimatePageCount: (config) => getTemplateOption<number>(config, dotGridTemplate, 'pageCount'),
+  generate: (ctx) => generatePaperPages(ctx, dotGridTemplate, paintDotGrid),
+};
+
+export const linedTemplate: PlannerTemplate = {
+  id: 'lined',
+  label: 'Lined Paper',
+  description: 'Pages of college-ruled lines',
+  coverTitle: 'Lined Notebook',
+  features: { dateRange: false, timeSlots: false, navigation: false },
+  options: [PAGE_COUNT_OPTION],
+  estimatePageCount: (config) => getTemplateOption<number>(config, linedTemplate, 'pageCount'),
+  generate: (ctx) => generatePaperPages(ctx, linedTemplate, paintLined),
+};
+
+export const blankTemplate: PlannerTemplate = {
+  id: 'blank',
+  label: 'Blank Pages',
+  description: 'Plain blank pages',
+  coverTitle: 'Notebook',
+  features: { dateRange: false, timeSlots: false, navigation: false },
+  options: [PAGE_COUNT_OPTION],
+  estimatePageCount: (config) => getTemplateOption<number>(config, blankTemplate, 'pageCount'),
+  generate: (ctx) => generatePaperPages(ctx, blankTemplate, () => {}),
+};
@@ -0,0 +1,123 @@
+import { rgb } from 'pdf-lib';
+import type { PageRef, PlannerTemplate, TemplateContext } from '../types';
+import { drawDarkModeBackground } from '../bujo/page-utils';
+import { layoutX, textX } from '../../direction';
+import { getSectionColors } from '../../../themes';
+import { formatWeekKey, getPlannerWeekNumber, getPlannerWeeks, getWeekOptions, getWeekdayOrder } from '../weeks';
+
+export function generateWeeklyPages(ctx: TemplateContext): PageRef[] {
+  const { pdfDoc, config, font, fontBold, fontHeading, dims, colors, i18n, reportProgress } = ctx;
+  const { strings } = i18n;
+  const { WIDTH, HEIGHT, MARGIN, TOOLBAR_HEIGHT } = dims;
+  const weekOptions = getWeekOptions(config);
+  const weeks = getPlannerWeeks(config);
+  const topY = HEIGHT - MARGIN - TOOLBAR_HEIGHT;
+
+  const textColor = rgb(colors.text.r, colors.text.g, colors.text.b);
+  const mutedColor = rgb(colors.textMuted.r, colors.textMuted.g, colors.textMuted.b);
+  const lineColor = rgb(colors.line.r, colors.line.g, colors.line.b);
+
+  const pageRefs: PageRef[] = [];
+
+  for (const weekStart of weeks) {
+    reportProgress('Weekly pages');
+    const page = pdfDoc.addPage([WIDTH, HEIGHT]);
+    drawDarkModeBackground(page, dims, colors);
+    const pageIndex = pdfDoc.getPageCount() - 1;
+    pageRefs.push({
+      label: strings.weekOf(i18n.formatDate(weekStart, strings.dates.shortDate)),
+      pageIndex,
+      type: 'weekly',
+      date: weekStart,
+      weekIndex: getPlannerWeekNumber(weekStart, weekOptions),
+      weekKey: formatWeekKey(weekStart, weekOptions),
+    });
+
+    // Header
+    const title = strings.weekOf(i18n.formatDate(weekStart, strings.dates.longDate));
+    page.drawText(title, {
+      x: textX(dims, MARGIN, title, fontHeading, 14),
+      y: topY - 16,
+      size: 14,
+      font: fontHeading,
+      color: textColor,
+    });
+
+    // Draw 7 columns, with day headers in the month's accent
+    const { accent } = getSectionColors(colors, weekStart.getMonth());
+    const accentColor = rgb(accent.r, accent.g, accent.b);
+    const daysToShow = config.includeWeekends ? 7 : 5;
+    const colWidth = (WIDTH - 2 * MARGIN) / daysToShow;
+    const dayNames = getWeekdayOrder(weekOptions)
+      .filter((day) => config.includeWeekends || (day !== 0 && day !== 6))
+      .map((day) => i18n.weekdayName(day, 'abbreviated'));
+
+    for (let i = 0; i < daysToShow; i++) {
+      const x = MARGIN + i * colWidth;
+
+      // Day header
+      page.drawText(dayNames[i], {
+        x: textX(dims, x + 4, dayNames[i], fontBold, 10),
+        y: topY - 40,
+        size: 10,
+        font: fontBold,
+        color: accentColor,
+      });
+
+      // Column border
+      page.drawLine({
+        start: { x: layoutX(dims, x), y: topY - 50 },
+        end: { x: layoutX(dims, x), y: MARGIN + 40 },
+        thickness: 0.5,
+        color: lineColor,
+      });
+    }
+
+    // Horizontal line under headers
+    page.drawLine({
+      start: { x: MARGIN, y: topY - 50 },
+      end: { x: WIDTH - MARGIN, y: topY - 50 },
+      thickness: 0.5,
+      color: lineColor,
+    });
+
+    // Notes section
+    page.drawText(strings.notes, {
+      x: textX(dims, MARGIN, strings.notes, fontBold, 10),
+      y: MARGIN + 30,
+      size: 10,
+      font: fontBold,
+      color: mutedColor,
+    });
+
+    page.drawLine({
+      start: { x: MARGIN, y: MARGIN + 40 },
+      end: { x: WIDTH - MARGIN, y: MARGIN + 40 },
+      thickness: 0.5,
+      color: lineColor,
+    });
+
+    if (config.pageNumbers) {
+      const pageNumber = `${pageIndex + 1}`;
+      page.drawText(pageNumber, {
+        x: textX(dims, WIDTH - MARGIN - 20, pageNumber, font, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font,
+        color: mutedColor,
+      });
+    }
+  }
+
+  return pageRefs;
+}
+
+export const weeklyTemplate: PlannerTemplate = {
+  id: 'weekly',
+  label: 'Weekly Planner',
+  description: '7-day grid with notes section',
+  coverTitle: 'Weekly Planner',
+  features: { dateRange: true, timeSlots: false, navigation: true },
+  estimatePageCount: (config) => getPlannerWeeks(config).length,
+  generate: generateWeeklyPages,
+};
@@ -0,0 +1,102 @@
+import type { PDFDocument, PDFFont } from 'pdf-lib';
+import type { PlannerConfig, PlannerType, ColorScheme } from '../../../types/planner';
+import type { LinkRecorder } from '../link-recorder';
+import type { OutlineItem } from '../outline';
+import type { PlannerI18n } from '../../i18n';
+
+export type PageType = 'key' | 'year' | 'future' | 'monthly' | 'monthly-tasks' | 'habits' | 'weekly' | 'daily' | 'collection' | 'index' | 'page';
+
+export interface PageRef {
+  label: string;
+  pageIndex: number;
+  type: PageType;
+  // Relationship fields for navigation
+  date?: Date;              // For daily/weekly pages - the date they represent
+  monthIndex?: number;      // Which month (0-11) this page belongs to
+  weekIndex?: number;       // Week number shown for the week this page belongs to
+  weekKey?: string;         // 'YYYY-MM-DD' start of that week, for weekly lookups
+  yearMonth?: string;       // 'YYYY-MM' key for monthly lookups
+  collection?: string;      // Name of the collection the page belongs to, unset for untitled collection pages
+}
+
+export interface Dimensions {
+  WIDTH: number;
+  HEIGHT: number;
+  MARGIN: number;
+  TOOLBAR_HEIGHT: number; // Extra top margin for reMarkable toolbar (legacy)
+  // New padding system - padding on each side
+  padding: {
+    top: number;
+    bottom: number;
+    left: number;
+    right: number;
+  };
+  toolbarPosition: 'top' | 'bottom' | 'left' | 'right';
+  rtl: boolean; // Mirror layouts for right-to-left languages (see pdf/direction.ts)
+  landscape: boolean; // Page is wider than tall; layouts use the extra width for columns
+}
+
+/**
+ * Everything a template needs to draw its pages.
+ */
+export interface TemplateContext {
+  pdfDoc: PDFDocument;
+  config: PlannerConfig;
+  font: PDFFont;
+  fontBold: PDFFont;
+  fontHeading: PDFFont; // Page titles; the same as fontBold unless a heading font is set
+  dims: Dimensions;
+  colors: ColorScheme;
+  links: LinkRecorder; // Hit-regions recorded while drawing, resolved in addNavigation
+  i18n: PlannerI18n;   // Fixed labels and date formats in the config's language
+  // Call before drawing each page or section; throws if generation was cancelled
+  reportProgress: (section: string) => void;
+}
+
+/**
+ * Result of inserting index / table of contents pages after the cover.
+ */
+export interface IndexResult {
+  pageCount: number;
+  indexRefs: PageRef[];
+}
+
+/**
+ * Which shared PlannerConfig controls apply to a template.
+ * dateRange: start/end date, weekends, index and page number toggles
+ * timeSlots: start/end hour and time interval
+ * navigation: index pages and navigation links are added to the PDF
+ */
+export interface TemplateFeatures {
+  dateRange: boolean;
+  timeSlots: boolean;
+  navigation: boolean;
+}
+
+/**
+ * Template-specific setting, stored in PlannerConfig.templateOptions[key].
+ */
+export type TemplateOptionField =
+  | { key: string; label: string; type: 'number'; default: number; min: number; max: number }
+  | { key: string; label: string; type: 'boolean'; default: boolean }
+  | { key: string; label: string; type: 'select'; default: string; choices: { value: string; label: string }[] };
+
+export interface PlannerTemplate {
+  id: PlannerType;
+  label: string;        // Shown on the form's planner type button
+  description: string;
+  coverTitle: string;   // Cover page title when the config has no title (built-ins are translated)
+  features: TemplateFeatures;
+  defaults?: Partial<PlannerConfig>;
+  options?: TemplateOptionField[];
+  // Approximate number of content pages, used for progress reporting
+  estimatePageCount: (config: PlannerConfig) => number;
+  generate: (ctx: TemplateContext) => PageRef[];
+  // Inserts index pages at insertAt; falls back to the standard table of contents
+  addIndex?: (ctx: TemplateContext, pageRefs: PageRef[], insertAt: number) => IndexResult;
+  // Adds links once index pages are in place; falls back to basic prev/next links
+  addNavigation?: (ctx: TemplateContext, pageRefs: PageRef[], indexPageIndex: number) => void;
+  // PDF bookmarks for the finished document; falls back to one entry per page ref
+  buildOutline?: (ctx: TemplateContext, pageRefs: PageRef[], indexPageIndex: number) => OutlineItem[];
+}
+
@@ -0,0 +1,60 @@
+import { addDays, eachWeekOfInterval, format, getISOWeek, getWeek, startOfWeek } from 'date-fns';
+import type { PlannerConfig, WeekNumbering, WeekStartDay } from '../../../types/planner';
+
+/**
+ * How the planner splits days into weeks and numbers them.
+ */
+export interface WeekOptions {
+  weekStartsOn: WeekStartDay;
+  weekNumbering: WeekNumbering;
+}
+
+export function getWeekOptions(config: PlannerConfig): WeekOptions {
+  return {
+    weekStartsOn: config.weekStartsOn ?? 0,
+    weekNumbering: config.weekNumbering ?? 'calendar',
+  };
+}
+
+/**
+ * First day of every planner week overlapping the config's date range.
+ */
+export function getPlannerWeeks(config: PlannerConfig): Date[] {
+  const { weekStartsOn } = getWeekOptions(config);
+  return eachWeekOfInterval({ start: config.startDate, end: config.endDate }, { weekStartsOn });
+}
+
+export function getPlannerWeekStart(date: Date, options: WeekOptions): Date {
+  return startOfWeek(date, { weekStartsOn: options.weekStartsOn });
+}
+
+/**
+ * Week number of the planner week containing date. Every day of a week gets
+ * the same number.
+ * 'calendar': week 1 is the week containing January 1st.
+ * 'iso': ISO-8601 numbering. For weeks that don't start on Monday this is the
+ * ISO week that shares the most days with it, i.e. the one its Monday is in.
+ */
+export function getPlannerWeekNumber(date: Date, options: WeekOptions): number {
+  const weekStart = getPlannerWeekStart(date, options);
+  if (options.weekNumbering === 'iso') {
+    const monday = addDays(weekStart, (8 - options.weekStartsOn) % 7);
+    return getISOWeek(monday);
+  }
+  return getWeek(weekStart, { weekStartsOn: options.weekStartsOn, firstWeekContainsDate: 1 });
+}
+
+/**
+ * Stable key for the planner week containing date: its first day as 'YYYY-MM-DD'.
+ * Unlike week numbers, keys don't repeat across years.
+ */
+export function formatWeekKey(date: Date, options: WeekOptions): string {
+  return format(getPlannerWeekStart(date, options), 'yyyy-MM-dd');
+}
+
+/**
+ * Day-of-week numbers (0 = Sunday) in planner order, e.g. [1, 2, 3, 4, 5, 6, 0].
+ */
+export function getWeekdayOrder(options: WeekOptions): number[] {
+  return Array.from({ length: 7 }, (_, i) => (options.weekStartsOn + i) % 7);
+}
@@ -0,0 +1,137 @@
+import type { ColorScheme, ColorTheme, PlannerConfig, RGBColor, ThemeColorName } from '../types/planner';
+import { DARK_COLORS, LIGHT_COLORS } from '../types/planner';
+
+export const DEFAULT_THEME = 'grayscale';
+
+export const THEME_COLOR_NAMES: ThemeColorName[] = ['background', 'text', 'textMuted', 'line', 'lineFaint', 'dot', 'accent'];
+
+const HEX_COLOR = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i;
+
+/**
+ * Parse a '#rrggbb' color. Undefined if it isn't one.
+ */
+export function parseHexColor(hex: string): RGBColor | undefined {
+  const match = HEX_COLOR.exec(hex);
+  if (!match) return undefined;
+  const [r, g, b] = match.slice(1).map((channel) => parseInt(channel, 16) / 255);
+  return { r, g, b };
+}
+
+export function toHexColor({ r, g, b }: RGBColor): string {
+  return `#${[r, g, b].map((channel) => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function hex(value: string): RGBColor {
+  return parseHexColor(value)!;
+}
+
+function lighten(color: RGBColor, amount: number): RGBColor {
+  return {
+    r: color.r + (1 - color.r) * amount,
+    g: color.g + (1 - color.g) * amount,
+    b: color.b + (1 - color.b) * amount,
+  };
+}
+
+/**
+ * A colored palette on a white page. Dark mode keeps the grayscale dark page
+ * and lightens the accents so they still stand out against it.
+ */
+function colorTheme(
+  id: string,
+  name: string,
+  colors: Omit<ColorScheme, 'background' | 'sectionAccents'>,
+  sectionAccents: RGBColor[] = []
+): ColorTheme {
+  return {
+    id,
+    name,
+    light: { ...LIGHT_COLORS, ...colors, sectionAccents },
+    dark: {
+      ...DARK_COLORS,
+      accent: lighten(colors.accent, 0.35),
+      sectionAccents: sectionAccents.map((accent) => lighten(accent, 0.35)),
+    },
+  };
+}
+
+// Colored palettes are tuned for the Paper Pro's Canvas Color screen, which
+// washes out light tints: accents are saturated mid-tones and lines stay
+// dark enough to survive the color filter.
+export const COLOR_THEMES: Record<string, ColorTheme> = {
+  grayscale: { id: 'grayscale', name: 'Grayscale', light: LIGHT_COLORS, dark: DARK_COLORS },
+  canvas: colorTheme(
+    'canvas',
+    'Canvas',
+    {
+      text: hex('#1a1a1a'),
+      textMuted: hex('#5c5c5c'),
+      line: hex('#bdbdbd'),
+      lineFaint: hex('#dcdcdc'),
+      dot: hex('#6e6e6e'),
+      accent: hex('#1f4e9c'),
+    },
+    // One color per month, January first
+    [
+      '#1f4e9c', '#6b3fa0', '#1d7a4a', '#2f8f9d', '#5f9a2a', '#c99400',
+      '#d9541e', '#c0292b', '#a3471d', '#8c5a2b', '#6b4f9e', '#1b6f8a',
+    ].map(hex)
+  ),
+  ocean: colorTheme('ocean', 'Ocean', {
+    text: hex('#0f2a3a'),
+    textMuted: hex('#4a6272'),
+    line: hex('#a9c4d4'),
+    lineFaint: hex('#d3e2eb'),
+    dot: hex('#5f8399'),
+    accent: hex('#1b6f8a'),
+  }),
+  forest: colorTheme('forest', 'Forest', {
+    text: hex('#1a2a1c'),
+    textMuted: hex('#55685a'),
+    line: hex('#b5c9b1'),
+    lineFaint: hex('#d9e5d6'),
+    dot: hex('#6c876f'),
+    accent: hex('#2e6b34'),
+  }),
+  ember: colorTheme('ember', 'Ember', {
+    text: hex('#2a1a14'),
+    textMuted: hex('#6e564c'),
+    line: hex('#d9bba9'),
+    lineFaint: hex('#ecdcd1'),
+    dot: hex('#94705f'),
+    accent: hex('#b8431f'),
+  }),
+};
+
+/**
+ * The colors a planner is drawn in: its palette (light or dark), with any
+ * colors the config overrides. Unknown palettes fall back to grayscale.
+ */
+export function resolveColorScheme(config: Pick<PlannerConfig, 'darkMode' | 'theme'>): ColorScheme {
+  const { theme } = config;
+  const palette = COLOR_THEMES[theme?.palette ?? DEFAULT_THEME] ?? COLOR_THEMES[DEFAULT_THEME];
+  const scheme = { ...(config.darkMode ? palette.dark : palette.light) };
+
+  for (const name of THEME_COLOR_NAMES) {
+    const override = theme?.colors?.[name];
+    const color = override !== undefined ? parseHexColor(override) : undefined;
+    if (color) scheme[name] = color;
+  }
+
+  const sectionAccents = theme?.sectionAccents?.map(parseHexColor);
+  if (sectionAccents?.every((color) => color !== undefined)) {
+    scheme.sectionAccents = sectionAccents as RGBColor[];
+  }
+
+  return scheme;
+}
+
+/**
+ * Colors for the section covering a month (0-11): accent becomes that
+ * month's section accent, when the theme has them.
+ */
+export function getSectionColors(colors: ColorScheme, month: number): ColorScheme {
+  const { sectionAccents } = colors;
+  if (sectionAccents.length === 0) return colors;
+  return { ...colors, accent: sectionAccents[month % sectionAccents.length] };
+}
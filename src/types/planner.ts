@@ -1,5 +1,8 @@
 // Device types
-export type DeviceType = 'remarkable2' | 'paperPro' | 'move';
+export type BuiltInDeviceType = 'remarkable2' | 'paperPro' | 'move';
+
+// Custom devices (see DeviceProfile) use their own string ids
+export type DeviceType = BuiltInDeviceType | (string & {});
 
 export interface DeviceConfig {
   id: DeviceType;
@@ -11,7 +14,17 @@ export interface DeviceConfig {
   margin: number;
 }
 
-export const DEVICE_CONFIGS: Record<DeviceType, DeviceConfig> = {
+// A device outside DEVICE_CONFIGS, described by its screen held upright.
+// Give dpi, or diagonal and the rest is worked out from the pixel size.
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  pixels: { width: number; height: number };
+  dpi?: number;
+  diagonal?: number; // Screen diagonal in inches
+}
+
+export const DEVICE_CONFIGS: Record<BuiltInDeviceType, DeviceConfig> = {
   remarkable2: {
     id: 'remarkable2',
     name: 'reMarkable 2',
@@ -42,7 +55,13 @@ export const DEVICE_CONFIGS: Record<DeviceType, DeviceConfig> = {
 };
 
 // Template types - bujo is primary
-export type PlannerType = 'bujo' | 'daily' | 'weekly' | 'monthly' | 'dotgrid' | 'lined' | 'blank';
+export type BuiltInPlannerType = 'bujo' | 'daily' | 'weekly' | 'monthly' | 'dotgrid' | 'lined' | 'blank';
+
+// Custom templates registered at runtime use their own string ids
+export type PlannerType = BuiltInPlannerType | (string & {});
+
+// Value of a template-specific option (see PlannerTemplate.options)
+export type TemplateOptionValue = number | boolean | string;
 
 // Density affects text size and spacing
 export type DensityLevel = 'compact' | 'normal' | 'comfortable';
@@ -80,6 +99,14 @@ export type PageStyle = 'dotgrid' | 'lined' | 'blank';
 
 // Toolbar position for navigation bar
 export type ToolbarPosition = 'top' | 'bottom' | 'left' | 'right';
+// landscape swaps the device's page width and height
+export type Orientation = 'portrait' | 'landscape';
+export type WeekStartDay = 0 | 1 | 6; // Sunday, Monday, Saturday
+// calendar: week 1 contains January 1st; iso: ISO-8601 week numbers
+export type WeekNumbering = 'calendar' | 'iso';
+// Language of all text drawn in the PDF; 'he' and 'ar' lay pages out right to left
+export type PlannerLocale = 'en' | 'es' | 'de' | 'fr' | 'he' | 'ar';
+export type TextDirection = 'ltr' | 'rtl';
 
 // Padding configuration for each side
 export interface PaddingConfig {
@@ -89,27 +116,155 @@ export interface PaddingConfig {
   right: number;
 }
 
+// A TrueType or OpenType font file
+export interface FontFile {
+  name: string; // File name, shown in the form
+  data: string; // base64 or data: URL of the .ttf/.otf file
+}
+
+// Custom fonts; anything unset falls back to the built-in font for the planner's language
+export interface FontConfig {
+  regular?: FontFile;
+  bold?: FontFile;    // Defaults to regular
+  heading?: FontFile; // Page and cover titles; defaults to bold
+}
+
 // Default toolbar height (in PDF points) matching reMarkable device toolbar
 export const DEFAULT_TOOLBAR_SIZE = 40;
 
+// Clickable tabs along the page edge: none, months, or months plus quarter and year tabs
+export type SideTabsMode = 'none' | 'months' | 'months-quarters';
+
+// Year › Month › Week › Day links on dated pages: off, on a line below the nav bar, or instead of it
+export type BreadcrumbMode = 'none' | 'below-nav' | 'replace-nav';
+
+// A page per year at the front of the bullet journal: off, twelve mini month
+// calendars, or a year in pixels grid of every day with a mood legend
+export type YearOverviewMode = 'none' | 'calendar' | 'pixels';
+
+// Bullet journal pages that have a nav bar
+export type BujoNavPage = 'key' | 'year' | 'future' | 'monthly' | 'monthly-tasks' | 'habits' | 'weekly' | 'daily' | 'collection';
+
+// A nav bar link: a section, the month/week/day the page belongs to, or a step
+// to the previous/next page of the same kind ('prev', 'next') or month
+export type NavItemKind =
+  | 'index' | 'key' | 'future' | 'year' | 'monthly' | 'monthly-tasks' | 'habits' | 'weekly' | 'daily' | 'collections'
+  | 'prev' | 'next' | 'prev-month' | 'next-month';
+
+// Nav bar links per page type, left to right; page types left out use DEFAULT_NAV_ITEMS
+export type NavItemsConfig = Partial<Record<BujoNavPage, NavItemKind[]>>;
+
+export const NAV_ITEM_KINDS: NavItemKind[] = [
+  'index', 'key', 'future', 'year', 'monthly', 'monthly-tasks', 'habits', 'weekly', 'daily', 'collections',
+  'prev', 'next', 'prev-month', 'next-month',
+];
+
+export const DEFAULT_NAV_ITEMS: Record<BujoNavPage, NavItemKind[]> = {
+  key: ['prev', 'index', 'future', 'next'],
+  year: ['prev', 'index', 'future', 'next'],
+  future: ['index'],
+  monthly: ['prev', 'index', 'future', 'monthly-tasks', 'habits', 'next'],
+  'monthly-tasks': ['prev', 'index', 'future', 'monthly', 'habits', 'next'],
+  habits: ['prev', 'index', 'monthly', 'monthly-tasks', 'next'],
+  weekly: ['prev', 'index', 'future', 'monthly', 'monthly-tasks', 'next'],
+  daily: ['index', 'future', 'monthly', 'monthly-tasks', 'weekly'],
+  collection: ['prev', 'index', 'next'],
+};
+
+// Key signifiers: shapes drawn on the page, or characters written in bold
+export type BulletSymbol =
+  | 'dot' | 'circle' | 'x' | 'triangle' | 'square' | 'strike' | 'slash'
+  | '>' | '<' | '-' | '*' | '!' | '?' | '~' | '@' | '#';
+
+export const BULLET_SYMBOLS: BulletSymbol[] = [
+  'dot', 'circle', 'x', 'triangle', 'square', 'strike', 'slash',
+  '>', '<', '-', '*', '!', '?', '~', '@', '#',
+];
+
+// One signifier on the bullet key page
+export interface BulletKeyEntry {
+  symbol: BulletSymbol;
+  label: string;
+  description: string; // May be empty
+}
+
+// Layout drawn over a collection's background: a checklist, a numbered list or a table
+export type CollectionTemplate = 'checklist' | 'numbered' | 'table';
+
+export const COLLECTION_TEMPLATES: CollectionTemplate[] = ['checklist', 'numbered', 'table'];
+
+// A named collection and its pages
+export interface CollectionConfig {
+  name: string;
+  pages: number;
+  pageStyle: PageStyle;
+  template?: CollectionTemplate;
+}
+
+// How a weekly review section is filled in: bulleted lines, plain lines, a dot grid, a checklist or nothing
+export type ReviewSectionFill = 'bullets' | 'lines' | 'dots' | 'checkboxes' | 'blank';
+
+export const REVIEW_SECTION_FILLS: ReviewSectionFill[] = ['bullets', 'lines', 'dots', 'checkboxes', 'blank'];
+
+// One section of the weekly review page
+export interface WeeklyReviewSection {
+  title: string;
+  height: number; // Relative to the other sections; their widths when side by side in landscape
+  fill: ReviewSectionFill;
+}
+
 // Bullet journal specific config
 export interface BujoConfig {
   includeFutureLog: boolean;
   futureLogMonths: 6 | 12;
   includeMonthlyLog: boolean;
+  includeHabitTracker: boolean; // A tracker page after each month's calendar and tasks
+  habits: string[];             // Named rows of the tracker; the rest are left blank to fill in
   includeWeeklyReview: boolean;
+  weeklyReviewSections: WeeklyReviewSection[]; // Empty for the standard three, titled in the planner's language
   includeDailyLog: boolean;
-  includeCollectionPages: number;
+  includeCollectionPages: number; // Untitled collection pages, when no named collections are set
+  collections: CollectionConfig[];
   showBulletKey: boolean;
+  bulletKey: BulletKeyEntry[]; // Empty for the standard eight, in the planner's language
   density: DensityLevel;
   dailyPageStyle: PageStyle;
   collectionPageStyle: PageStyle;
   dotSpacing: number; // Spacing between dots (8-24), default 14
+  sideTabs: SideTabsMode; // Drawn on monthly, weekly and daily pages
+  navItems: NavItemsConfig;
+  breadcrumbs: BreadcrumbMode; // Drawn on monthly, weekly and daily pages
+  yearOverview: YearOverviewMode;
 }
 
+export const DEFAULT_BUJO_CONFIG: BujoConfig = {
+  includeFutureLog: true,
+  futureLogMonths: 6,
+  includeMonthlyLog: true,
+  includeHabitTracker: false,
+  habits: [],
+  includeWeeklyReview: true,
+  weeklyReviewSections: [],
+  includeDailyLog: true,
+  includeCollectionPages: 10,
+  collections: [],
+  showBulletKey: true,
+  bulletKey: [],
+  density: 'normal',
+  dailyPageStyle: 'dotgrid',
+  collectionPageStyle: 'dotgrid',
+  dotSpacing: 14,
+  sideTabs: 'none',
+  navItems: {},
+  breadcrumbs: 'none',
+  yearOverview: 'none',
+};
+
 export interface PlannerConfig {
   type: PlannerType;
   device: DeviceType;
+  deviceProfile?: DeviceProfile; // Screen of a custom device; used when device is its id
+  orientation?: Orientation; // Defaults to 'portrait'
   startDate: Date;
   endDate: Date;
   includeWeekends: boolean;
@@ -119,22 +274,56 @@ export interface PlannerConfig {
   includeIndex: boolean;
   pageNumbers: boolean;
   darkMode: boolean; // Invert colors for dark background
+  theme?: ThemeConfig; // Defaults to the grayscale palette
+  pageLabels?: boolean; // Write /PageLabels so viewers show 'Tue Mar 4' instead of page numbers
+  weekStartsOn?: WeekStartDay;   // Defaults to Sunday
+  weekNumbering?: WeekNumbering; // Defaults to 'calendar'
+  locale?: PlannerLocale;        // Defaults to 'en'
   title?: string;
+  fonts?: FontConfig;
   bujoConfig?: BujoConfig;
+  // Settings declared by the selected template's options, keyed by option key
+  templateOptions?: Record<string, TemplateOptionValue>;
   // Toolbar and padding settings
   toolbarPosition: ToolbarPosition;
   padding: PaddingConfig;
 }
 
+// Color channels from 0 to 1, as pdf-lib's rgb() takes them
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
 // Color scheme for PDF generation
 export interface ColorScheme {
-  background: { r: number; g: number; b: number };
-  text: { r: number; g: number; b: number };
-  textMuted: { r: number; g: number; b: number };
-  line: { r: number; g: number; b: number };
-  lineFaint: { r: number; g: number; b: number };
-  dot: { r: number; g: number; b: number };
-  accent: { r: number; g: number; b: number };
+  background: RGBColor;
+  text: RGBColor;
+  textMuted: RGBColor;
+  line: RGBColor;
+  lineFaint: RGBColor;
+  dot: RGBColor;
+  accent: RGBColor;
+  // Accent per month, repeating; empty means every section uses accent
+  sectionAccents: RGBColor[];
+}
+
+export type ThemeColorName = Exclude<keyof ColorScheme, 'sectionAccents'>;
+
+// A built-in palette, with a variant for dark mode
+export interface ColorTheme {
+  id: string;
+  name: string;
+  light: ColorScheme;
+  dark: ColorScheme;
+}
+
+// Colors are '#rrggbb' strings so config files stay readable
+export interface ThemeConfig {
+  palette: string; // Id of a built-in ColorTheme
+  colors?: Partial<Record<ThemeColorName, string>>; // Overrides on top of the palette
+  sectionAccents?: string[]; // Replaces the palette's month accents
 }
 
 export const LIGHT_COLORS: ColorScheme = {
@@ -145,6 +334,7 @@ export const LIGHT_COLORS: ColorScheme = {
   lineFaint: { r: 0.9, g: 0.9, b: 0.9 },
   dot: { r: 0.45, g: 0.45, b: 0.45 },
   accent: { r: 0.3, g: 0.3, b: 0.3 },
+  sectionAccents: [],
 };
 
 export const DARK_COLORS: ColorScheme = {
@@ -155,10 +345,56 @@ export const DARK_COLORS: ColorScheme = {
   lineFaint: { r: 0.2, g: 0.2, b: 0.2 },
   dot: { r: 0.5, g: 0.5, b: 0.5 },
   accent: { r: 0.7, g: 0.7, b: 0.7 },
+  sectionAccents: [],
+};
+
+/**
+ * Page size in PDF points for a device held in the given orientation.
+ */
+export function getPageSize(device: DeviceConfig, orientation: Orientation = 'portrait'): { width: number; height: number } {
+  const { width, height } = device.pdfPoints;
+  return orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+// Where each page edge ends up when the device is turned a quarter turn clockwise
+const QUARTER_TURN: Record<ToolbarPosition, ToolbarPosition> = {
+  top: 'right',
+  right: 'bottom',
+  bottom: 'left',
+  left: 'top',
 };
 
-export function getColorScheme(darkMode: boolean): ColorScheme {
-  return darkMode ? DARK_COLORS : LIGHT_COLORS;
+/**
+ * Switch a config to the given orientation.
+ * Going to landscape turns the device a quarter turn clockwise (and back again),
+ * so the toolbar and padding stay on the physical screen edge they were set for.
+ */
+export function setOrientation(config: PlannerConfig, orientation: Orientation): PlannerConfig {
+  if ((config.orientation ?? 'portrait') === orientation) return config;
+
+  // Back to portrait is three quarter turns clockwise
+  const turn = (edge: ToolbarPosition): ToolbarPosition =>
+    orientation === 'landscape' ? QUARTER_TURN[edge] : QUARTER_TURN[QUARTER_TURN[QUARTER_TURN[edge]]];
+
+  const padding = { ...config.padding };
+  for (const edge of Object.keys(QUARTER_TURN) as ToolbarPosition[]) {
+    padding[turn(edge)] = config.padding[edge];
+  }
+
+  return { ...config, orientation, toolbarPosition: turn(config.toolbarPosition), padding };
+}
+
+/**
+ * Move the toolbar to another edge. The toolbar gap in the padding moves with
+ * it, swapping with the padding on the new edge, so the side the toolbar left
+ * is given back to content.
+ */
+export function setToolbarPosition(config: PlannerConfig, toolbarPosition: ToolbarPosition): PlannerConfig {
+  const from = config.toolbarPosition;
+  if (from === toolbarPosition) return config;
+
+  const padding = { ...config.padding, [from]: config.padding[toolbarPosition], [toolbarPosition]: config.padding[from] };
+  return { ...config, toolbarPosition, padding };
 }
 
 // Legacy constant for backwards compatibility (will be removed)
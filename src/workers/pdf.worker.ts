@@ -0,0 +1,26 @@
+import { generatePlannerPDF } from '../lib/pdf-generator';
+import { ConfigValidationError } from '../lib/config-validation';
+import type { PdfWorkerRequest, PdfWorkerResponse } from '../lib/pdf-worker-client';
+
+function post(message: PdfWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<PdfWorkerRequest>) => {
+  const { config } = event.data;
+
+  try {
+    const bytes = await generatePlannerPDF(config, {
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    });
+    // Hand the underlying buffer over instead of copying it
+    const buffer = (bytes.byteLength === bytes.buffer.byteLength ? bytes.buffer : bytes.slice().buffer) as ArrayBuffer;
+    post({ type: 'done', buffer }, [buffer]);
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to generate PDF',
+      issues: error instanceof ConfigValidationError ? error.issues : undefined,
+    });
+  }
+};
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Builds the headless `remarkable-planner` CLI as a single Node script
+export default defineConfig({
+  build: {
+    ssr: 'cli/remarkable-planner.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'remarkable-planner.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    // Bundle dependencies so the CLI runs without the app's node_modules layout
+    noExternal: true,
+  },
+})
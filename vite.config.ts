@@ -5,4 +5,8 @@ import tailwindcss from '@tailwindcss/vite'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  worker: {
+    // The generator worker lazy-loads fonts, which needs code splitting
+    format: 'es',
+  },
 })